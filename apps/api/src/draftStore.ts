@@ -0,0 +1,54 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { DraftResult, PromptLanguage } from "@sail-away/core";
+
+export interface StoredDraft {
+  draftId: string;
+  createdAt: string;
+  topic: string;
+  /** Queue and 1-based item the topic came from; absent for drafts of a free topic. */
+  queueId?: string;
+  queueItem?: number;
+  seed?: number;
+  language: PromptLanguage;
+  /** Template id of the draft prompt, e.g. `ru/draft@1`; also in `draft.promptVersion`. */
+  promptVersion: string;
+  draft: DraftResult;
+}
+
+function draftDir(): string {
+  return path.resolve(process.cwd(), "data", "drafts");
+}
+
+function draftPath(draftId: string): string {
+  return path.join(draftDir(), `${draftId.replace(/[^\w-]/g, "_")}.json`);
+}
+
+export function createDraftId(): string {
+  const ts = new Date().toISOString().replace(/[-:.TZ]/g, "");
+  return `draft_${ts}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Keeps every generated draft in `data/drafts/<draftId>.json`. */
+export async function saveDraft(data: StoredDraft): Promise<void> {
+  await mkdir(draftDir(), { recursive: true });
+  await writeFile(draftPath(data.draftId), JSON.stringify(data, null, 2), "utf-8");
+}
+
+export async function loadDraft(draftId: string): Promise<StoredDraft | null> {
+  try {
+    const parsed = JSON.parse(await readFile(draftPath(draftId), "utf-8")) as Partial<StoredDraft>;
+    if (
+      !parsed ||
+      parsed.draftId !== draftId ||
+      typeof parsed.topic !== "string" ||
+      typeof parsed.promptVersion !== "string" ||
+      !parsed.draft
+    ) {
+      return null;
+    }
+    return parsed as StoredDraft;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+import { watch, type FSWatcher } from "node:fs";
+import {
+  reindexHistory,
+  type HistoryIndexState,
+  type HistoryValidationReport,
+  type IndexedPost,
+  type ReindexResult,
+} from "@sail-away/core";
+
+interface HistorySnapshot {
+  generation: number;
+  posts: IndexedPost[];
+  state: HistoryIndexState | undefined;
+  report: HistoryValidationReport | null;
+}
+
+interface RuntimeLogger {
+  info(obj: object, msg: string): void;
+  error(obj: object, msg: string): void;
+}
+
+export interface HistoryRuntimeStatus {
+  generation: number;
+  totalPosts: number;
+  lastReloadAt: string | null;
+  lastReloadError: string | null;
+  watching: boolean;
+}
+
+export interface HistoryRuntime {
+  posts(): IndexedPost[];
+  reload(): Promise<ReindexResult>;
+  status(): HistoryRuntimeStatus;
+  report(): HistoryValidationReport | null;
+  startWatching(debounceMs: number): void;
+  stop(): void;
+}
+
+export function createHistoryRuntime(historyRoot: string, logger: RuntimeLogger): HistoryRuntime {
+  // Снимок заменяется целиком и только после успешного парсинга,
+  // поэтому запросы всегда видят согласованный индекс.
+  let snapshot: HistorySnapshot = { generation: 0, posts: [], state: undefined, report: null };
+  let lastReloadAt: string | null = null;
+  let lastReloadError: string | null = null;
+  let inFlight: Promise<ReindexResult> | null = null;
+  let watcher: FSWatcher | null = null;
+  let debounceTimer: NodeJS.Timeout | null = null;
+  let reloadQueued = false;
+
+  const reload = (): Promise<ReindexResult> => {
+    if (inFlight) return inFlight;
+    inFlight = reindexHistory(historyRoot, snapshot.state)
+      .then((result) => {
+        snapshot = {
+          generation: snapshot.generation + 1,
+          posts: result.posts,
+          state: result.state,
+          report: result.report,
+        };
+        lastReloadAt = new Date().toISOString();
+        lastReloadError = null;
+        return result;
+      })
+      .catch((error: unknown) => {
+        lastReloadAt = new Date().toISOString();
+        lastReloadError = error instanceof Error ? error.message : String(error);
+        throw error;
+      })
+      .finally(() => {
+        inFlight = null;
+        // Изменения файлов, пришедшие во время любой перезагрузки (ручной или фоновой),
+        // подхватываются отдельной перезагрузкой после нее.
+        if (reloadQueued) {
+          reloadQueued = false;
+          void reloadInBackground();
+        }
+      });
+    return inFlight;
+  };
+
+  const reloadInBackground = async (): Promise<void> => {
+    if (inFlight) {
+      reloadQueued = true;
+      return;
+    }
+    try {
+      const { summary } = await reload();
+      logger.info(
+        { summary, generation: snapshot.generation, indexedPosts: snapshot.posts.length },
+        "History reloaded after file change",
+      );
+    } catch (error) {
+      logger.error({ err: error, historyRoot }, "History reload after file change failed");
+    }
+  };
+
+  return {
+    posts: () => snapshot.posts,
+    reload,
+    status: () => ({
+      generation: snapshot.generation,
+      totalPosts: snapshot.posts.length,
+      lastReloadAt,
+      lastReloadError,
+      watching: watcher !== null,
+    }),
+    report: () => snapshot.report,
+    startWatching(debounceMs) {
+      if (watcher) return;
+      watcher = watch(historyRoot, { recursive: true }, () => {
+        if (debounceTimer) clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(() => {
+          debounceTimer = null;
+          void reloadInBackground();
+        }, debounceMs);
+      });
+      watcher.on("error", (error) => {
+        logger.error({ err: error, historyRoot }, "History watcher failed");
+      });
+    },
+    stop() {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = null;
+      watcher?.close();
+      watcher = null;
+    },
+  };
+}
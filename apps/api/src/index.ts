@@ -1,19 +1,73 @@
 import Fastify from "fastify";
 import path from "node:path";
 import {
+  aggregateUsage,
   buildDraftPostRag,
+  explainDraftReferences,
   buildNext10PlanRag,
+  buildThemeIndex,
+  computeHistoryStats,
+  findContentGaps,
+  createLlmProvider,
+  historyChecksum,
   loadConfig,
-  loadHistoryFromDir,
+  loadPromptSet,
+  openEmbeddingStore,
+  summarizeUsage,
+  type EmbeddingStore,
   type IndexedPost,
+  type ContentGap,
+  type LlmProvider,
   type PlanItem,
+  type PreviousTopic,
+  type PromptSet,
+  type RagOptions,
+  type ThemeIndex,
+  type UsageListener,
 } from "@sail-away/core";
-import { createPlanId, loadLatestPlan, saveLatestPlan, type QueueItem } from "./planStore";
+import { createDraftId, loadDraft, saveDraft } from "./draftStore";
+import { createHistoryRuntime } from "./historyRuntime";
+import { replyAbortSignal, sendLlmFailure } from "./llmErrors";
+import {
+  createPlanId,
+  loadArchivedPlan,
+  loadLatestPlan,
+  loadQueueArchive,
+  saveLatestPlan,
+  type PlanInputs,
+  type QueueItem,
+} from "./planStore";
+import { loadThemeIndex, saveThemeIndex } from "./themeStore";
+import { loadUsageRecords, withUsageRecord } from "./usageStore";
 
 interface DraftRequestBody {
   topic?: string;
   queueItem?: number;
   queueId?: string;
+  seed?: number;
+}
+
+interface RetrievalExplainBody {
+  topic?: string;
+  topicKeywords?: string[];
+  mustHaveKeywords?: string[];
+  mustHaveSynonyms?: string[];
+  excludeKeywords?: string[];
+  /** `channel:id` of posts treated as cited by the draft. */
+  citedPostKeys?: string[];
+  limit?: number;
+}
+
+interface GenerationQuery {
+  seed?: string;
+  /** `true`: seed topics from the content gaps of the saved themes. */
+  gaps?: string;
+  /** Id of a seeded queue to regenerate from its recorded inputs. */
+  replay?: string;
+}
+
+interface GapsQuery {
+  limit?: string;
 }
 
 interface ReplaceQueueBody {
@@ -30,6 +84,20 @@ interface RemoveQueueBody {
   index?: number;
 }
 
+interface HistoryStatsQuery {
+  timeZone?: string;
+}
+
+interface ThemesRebuildQuery {
+  count?: string;
+  labels?: string;
+}
+
+interface UsageQuery {
+  days?: string;
+  weeks?: string;
+}
+
 function resolveHistoryRoot(): string {
   const fromEnv = process.env.HISTORY_DIR?.trim();
   if (fromEnv) {
@@ -38,6 +106,49 @@ function resolveHistoryRoot(): string {
   return path.resolve(__dirname, "../../../history");
 }
 
+function resolveHistoryWatchDebounceMs(): number | null {
+  const enabled = process.env.HISTORY_WATCH?.trim().toLowerCase();
+  if (enabled !== "1" && enabled !== "true") {
+    return null;
+  }
+  const debounceMs = Number(process.env.HISTORY_WATCH_DEBOUNCE_MS ?? 2000);
+  return Number.isFinite(debounceMs) && debounceMs >= 0 ? debounceMs : 2000;
+}
+
+const MAX_SEED = 2 ** 31 - 1;
+const MAX_THEME_COUNT = 50;
+const MAX_GAPS = 50;
+const GAP_SEED_THEMES = 5;
+
+/** `undefined` when absent, `null` when not an integer in 0..2^31-1. */
+/** The OpenAI Responses API takes no sampling seed, so a seeded run there would not be reproducible. */
+const SEED_UNSUPPORTED = "seed needs LLM_PROVIDER=openai-compatible: the OpenAI Responses API has no sampling seed";
+
+function parseSeed(raw: unknown): number | null | undefined {
+  if (raw === undefined || raw === "") return undefined;
+  const value = typeof raw === "string" ? Number(raw) : raw;
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_SEED ? value : null;
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === "string" && item.trim().length > 0);
+}
+
+function parseBoundedInt(raw: string | undefined, fallback: number, max: number): number {
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 1 ? Math.min(value, max) : fallback;
+}
+
+/** First UTC date covered by `days` daily and `weeks` Monday-based weekly periods ending today. */
+function usageSinceDate(now: Date, days: number, weeks: number): string {
+  const dayStart = new Date(now);
+  dayStart.setUTCDate(dayStart.getUTCDate() - (days - 1));
+  const weekStart = new Date(now);
+  weekStart.setUTCDate(weekStart.getUTCDate() - ((weekStart.getUTCDay() + 6) % 7) - 7 * (weeks - 1));
+  return formatDateOnly(dayStart < weekStart ? dayStart : weekStart);
+}
+
 function formatDateOnly(date: Date): string {
   return date.toISOString().slice(0, 10);
 }
@@ -51,8 +162,8 @@ function startOfUpcomingWeekMonday(baseDate: Date): Date {
   return d;
 }
 
-function withWeeklySlots(topics: PlanItem[]): QueueItem[] {
-  const start = startOfUpcomingWeekMonday(new Date());
+function withWeeklySlots(topics: PlanItem[], referenceTime = new Date().toISOString()): QueueItem[] {
+  const start = startOfUpcomingWeekMonday(new Date(referenceTime));
   return topics.map((item, index) => {
     const weekStart = new Date(start);
     weekStart.setUTCDate(start.getUTCDate() + index * 7);
@@ -92,20 +203,112 @@ function buildQueueFromTopics(topics: string[], baseQueue: QueueItem[]): QueueIt
   return withWeeklySlots(planItems);
 }
 
-async function generateAndSaveQueue(indexedPosts: IndexedPost[], config: ReturnType<typeof loadConfig>) {
-  const latest = await loadLatestPlan();
-  const avoidTopics = Array.isArray(latest?.queue) ? latest.queue.map((item) => item.topic) : [];
+/** Topics of every saved queue; new plans must not repeat them. */
+async function loadPreviousTopics(): Promise<PreviousTopic[]> {
+  const queues = await loadQueueArchive();
+  return queues.flatMap((queue) =>
+    queue.queue.map((item) => ({ topic: item.topic, queueId: queue.queueId, rank: item.rank })),
+  );
+}
+
+interface PlanRun {
+  seed?: number;
+  inputs: PlanInputs;
+  /** Queue whose recorded inputs are replayed. */
+  replayOf?: string;
+}
+
+interface RequestFailure {
+  statusCode: number;
+  message: string;
+}
+
+/** Inputs of a new run, or the recorded inputs of the queue named by `?replay`. */
+async function preparePlanRun(
+  query: GenerationQuery,
+  seed: number | undefined,
+  indexedPosts: IndexedPost[],
+): Promise<PlanRun | RequestFailure> {
+  const checksum = historyChecksum(indexedPosts);
+  if (!query.replay) {
+    const gaps = query.gaps === "true" ? await loadGapSeeds(indexedPosts) : undefined;
+    if (gaps && "statusCode" in gaps) {
+      return gaps;
+    }
+    const previousTopics = await loadPreviousTopics();
+    return {
+      seed,
+      inputs: { referenceTime: new Date().toISOString(), historyChecksum: checksum, previousTopics, gaps },
+    };
+  }
 
-  const ragResult = await buildNext10PlanRag(indexedPosts, {
-    apiKey: config.openaiApiKey,
+  if (seed !== undefined || query.gaps !== undefined) {
+    return { statusCode: 400, message: "replay takes seed and gaps from the replayed queue" };
+  }
+  const replayed = await loadArchivedPlan(query.replay);
+  if (!replayed) {
+    return { statusCode: 404, message: `Queue not found: ${query.replay}` };
+  }
+  if (replayed.seed === undefined || !replayed.inputs) {
+    return { statusCode: 409, message: `Queue ${query.replay} was not generated with a seed and cannot be replayed` };
+  }
+  if (replayed.inputs.historyChecksum !== checksum) {
+    return { statusCode: 409, message: `History changed since queue ${query.replay} was generated` };
+  }
+  // Сама воспроизводимая очередь не должна отсеивать собственные темы.
+  const previousTopics = replayed.inputs.previousTopics.filter((topic) => topic.queueId !== replayed.queueId);
+  return { seed: replayed.seed, inputs: { ...replayed.inputs, previousTopics }, replayOf: replayed.queueId };
+}
+
+/** `buildNext10PlanRag` options of a run, the same for a saved and a suggested queue. */
+function planRagOptions(
+  config: ReturnType<typeof loadConfig>,
+  embeddingStore: EmbeddingStore,
+  llmProvider: LlmProvider,
+  prompts: PromptSet,
+  run: PlanRun,
+  signal?: AbortSignal,
+  onUsage?: UsageListener,
+): RagOptions {
+  return {
+    provider: llmProvider,
     model: config.openaiModel,
     embeddingModel: config.openaiEmbeddingModel,
     topK: config.ragTopK,
-    avoidTopics,
-  });
+    previousTopics: run.inputs.previousTopics,
+    topicDedupThreshold: config.topicDedupThreshold,
+    recentOwnPosts: config.topicDedupOwnPosts,
+    gaps: run.inputs.gaps,
+    embeddingStore,
+    kindWeights: { own: config.ragOwnWeight, similar: config.ragSimilarWeight },
+    retrievalWeights: config.retrievalWeights,
+    mmrLambda: config.ragMmrLambda,
+    seed: run.seed,
+    referenceTime: run.inputs.referenceTime,
+    signal,
+    onUsage,
+    prompts,
+  };
+}
 
-  const queue = withWeeklySlots(ragResult.plan);
-  const queueId = createPlanId();
+async function generateAndSaveQueue(
+  indexedPosts: IndexedPost[],
+  config: ReturnType<typeof loadConfig>,
+  embeddingStore: EmbeddingStore,
+  llmProvider: LlmProvider,
+  prompts: PromptSet,
+  run: PlanRun,
+  signal?: AbortSignal,
+  onUsage?: UsageListener,
+) {
+  const { seed, inputs } = run;
+  const ragResult = await buildNext10PlanRag(
+    indexedPosts,
+    planRagOptions(config, embeddingStore, llmProvider, prompts, run, signal, onUsage),
+  );
+
+  const queue = withWeeklySlots(ragResult.plan, inputs.referenceTime);
+  const queueId = createPlanId(seed === undefined ? undefined : { seed, inputs, replayOf: run.replayOf });
   const createdAt = new Date().toISOString();
 
   await saveLatestPlan({
@@ -114,12 +317,21 @@ async function generateAndSaveQueue(indexedPosts: IndexedPost[], config: ReturnT
     mode: "rag",
     totalPosts: indexedPosts.length,
     queue,
+    language: prompts.language,
+    promptVersions: ragResult.promptVersions,
+    seed,
+    inputs: seed === undefined ? undefined : inputs,
   });
 
   return {
     status: "ok" as const,
     mode: "rag" as const,
     topicSeeds: ragResult.topicSeeds,
+    rejectedTopics: ragResult.rejectedTopics,
+    gapSeeds: inputs.gaps?.map((gap) => gap.label) ?? [],
+    promptVersions: ragResult.promptVersions,
+    seed,
+    replayOf: run.replayOf,
     queueId,
     createdAt,
     totalPosts: indexedPosts.length,
@@ -127,86 +339,349 @@ async function generateAndSaveQueue(indexedPosts: IndexedPost[], config: ReturnT
   };
 }
 
-async function generateSuggestedQueue(indexedPosts: IndexedPost[], config: ReturnType<typeof loadConfig>) {
-  const latest = await loadLatestPlan();
-  const avoidTopics = Array.isArray(latest?.queue) ? latest.queue.map((item) => item.topic) : [];
-
-  const ragResult = await buildNext10PlanRag(indexedPosts, {
-    apiKey: config.openaiApiKey,
-    model: config.openaiModel,
-    embeddingModel: config.openaiEmbeddingModel,
-    topK: config.ragTopK,
-    avoidTopics,
-  });
+async function generateSuggestedQueue(
+  indexedPosts: IndexedPost[],
+  config: ReturnType<typeof loadConfig>,
+  embeddingStore: EmbeddingStore,
+  llmProvider: LlmProvider,
+  prompts: PromptSet,
+  run: PlanRun,
+  signal?: AbortSignal,
+  onUsage?: UsageListener,
+) {
+  const { seed, inputs } = run;
+  const ragResult = await buildNext10PlanRag(
+    indexedPosts,
+    planRagOptions(config, embeddingStore, llmProvider, prompts, run, signal, onUsage),
+  );
 
   return {
     status: "ok" as const,
     mode: "rag" as const,
     topicSeeds: ragResult.topicSeeds,
-    queue: withWeeklySlots(ragResult.plan),
+    rejectedTopics: ragResult.rejectedTopics,
+    gapSeeds: inputs.gaps?.map((gap) => gap.label) ?? [],
+    promptVersions: ragResult.promptVersions,
+    seed,
+    replayOf: run.replayOf,
+    queue: withWeeklySlots(ragResult.plan, inputs.referenceTime),
   };
 }
 
+const THEMES_NOT_BUILT = "Themes have not been built yet: POST /history/themes/rebuild.";
+const THEMES_STALE = "History changed since the themes were built: POST /history/themes/rebuild.";
+
+/** Saved themes if they were built from `indexedPosts`: 404 before the first rebuild, 409 once the history changed. */
+async function loadCurrentThemeIndex(indexedPosts: IndexedPost[]): Promise<ThemeIndex | RequestFailure> {
+  const themeIndex = await loadThemeIndex();
+  if (!themeIndex) {
+    return { statusCode: 404, message: THEMES_NOT_BUILT };
+  }
+  if (themeIndex.historyChecksum !== historyChecksum(indexedPosts)) {
+    return { statusCode: 409, message: THEMES_STALE };
+  }
+  return themeIndex;
+}
+
+/** Top content gaps of the current themes; a generation request without them is a conflict. */
+async function loadGapSeeds(indexedPosts: IndexedPost[]): Promise<ContentGap[] | RequestFailure> {
+  const themeIndex = await loadCurrentThemeIndex(indexedPosts);
+  if ("statusCode" in themeIndex) {
+    return { statusCode: 409, message: themeIndex.message };
+  }
+  return findContentGaps(indexedPosts, themeIndex, { limit: GAP_SEED_THEMES });
+}
+
 async function main(): Promise<void> {
   const config = loadConfig();
   const app = Fastify({ logger: true });
   const historyRoot = resolveHistoryRoot();
-  let indexedPosts: IndexedPost[] = [];
+  const history = createHistoryRuntime(historyRoot, app.log);
+  const embeddingStore = await openEmbeddingStore(
+    path.resolve(process.cwd(), config.embeddingCacheDir),
+    config.openaiEmbeddingModel,
+  );
+  app.log.info({ cachedEmbeddings: embeddingStore.size() }, "Embedding store opened");
+  const llmProvider = createLlmProvider(config);
+  app.log.info({ provider: llmProvider.name, baseUrl: config.llmBaseUrl || undefined }, "LLM provider selected");
+
+  // Шаблоны читаются заново для каждой генерации: правка файла не требует рестарта.
+  const loadPrompts = () =>
+    loadPromptSet({
+      language: config.promptLanguage,
+      dir: config.promptsDir ? path.resolve(process.cwd(), config.promptsDir) : undefined,
+      variables: { audience: config.promptAudience },
+    });
+
+  const spentTodayUsd = async (): Promise<number> => {
+    const records = await loadUsageRecords(formatDateOnly(new Date()));
+    return summarizeUsage(records, config.llmPrices).costUsd;
+  };
+
+  // Бюджет проверяется до генерации: запрос, начатый под лимитом, может его немного превысить.
+  const budgetRefusal = async () => {
+    if (!(config.llmDailyBudgetUsd > 0)) return null;
+    const spentUsd = await spentTodayUsd();
+    if (spentUsd < config.llmDailyBudgetUsd) return null;
+    return {
+      status: "error",
+      errorKind: "budget_exceeded",
+      message: `Daily LLM budget exceeded: spent $${spentUsd.toFixed(4)} of $${config.llmDailyBudgetUsd.toFixed(2)}, resets at 00:00 UTC.`,
+    };
+  };
 
   try {
-    indexedPosts = await loadHistoryFromDir(historyRoot);
-    app.log.info({ indexedPosts: indexedPosts.length, historyRoot }, "History indexed on startup");
+    const { report } = await history.reload();
+    app.log.info(
+      {
+        indexedPosts: history.posts().length,
+        historyRoot,
+        filesSkipped: report.filesSkipped,
+        postsSkipped: report.postsSkipped,
+        postsDeduplicated: report.postsDeduplicated,
+      },
+      "History indexed on startup",
+    );
   } catch (error) {
     app.log.error({ err: error, historyRoot }, "Failed to index history on startup");
     throw error;
   }
 
+  const watchDebounceMs = resolveHistoryWatchDebounceMs();
+  if (watchDebounceMs !== null) {
+    history.startWatching(watchDebounceMs);
+    app.addHook("onClose", async () => history.stop());
+    app.log.info({ historyRoot, debounceMs: watchDebounceMs }, "Watching history directory");
+  }
+
   app.get("/health", async () => {
     return {
       status: "ok",
       service: "api",
+      llmProvider: llmProvider.name,
       model: config.openaiModel,
       embeddingModel: config.openaiEmbeddingModel,
+      history: history.status(),
     };
   });
 
-  app.get("/queue/suggest10", async (_request, reply) => {
+  app.post("/history/reindex", async (_request, reply) => {
+    try {
+      const { summary, report } = await history.reload();
+      const { generation, totalPosts } = history.status();
+      app.log.info({ summary, generation, indexedPosts: totalPosts }, "History reindexed");
+      return {
+        status: "ok",
+        generation,
+        totalPosts,
+        summary,
+        issues: { errors: report.errors, warnings: report.warnings },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "reindex_failed";
+      app.log.error({ err: error, historyRoot }, "History reindex failed");
+      return reply.code(500).send({
+        status: "error",
+        message: `History reindex failed: ${message}`,
+      });
+    }
+  });
+
+  app.get("/history/report", async (_request, reply) => {
+    const report = history.report();
+    if (!report) {
+      return reply.code(404).send({
+        status: "error",
+        message: "History has not been indexed yet.",
+      });
+    }
+    return {
+      status: "ok",
+      generation: history.status().generation,
+      report,
+    };
+  });
+
+  app.get("/history/stats", async (request, reply) => {
+    const { timeZone } = (request.query ?? {}) as HistoryStatsQuery;
+    try {
+      return {
+        status: "ok",
+        generation: history.status().generation,
+        stats: computeHistoryStats(history.posts(), { timeZone: timeZone?.trim() || undefined }),
+      };
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return reply.code(400).send({
+          status: "error",
+          message: `Unknown timeZone: ${timeZone}`,
+        });
+      }
+      throw error;
+    }
+  });
+
+  app.post("/history/themes/rebuild", async (request, reply) => {
+    const query = (request.query ?? {}) as ThemesRebuildQuery;
+    if (query.labels !== undefined && query.labels !== "terms" && query.labels !== "llm") {
+      return reply.code(400).send({ status: "error", message: "labels must be terms or llm" });
+    }
+    const signal = replyAbortSignal(reply);
+    const indexedPosts = history.posts();
     if (indexedPosts.length === 0) {
       return reply.code(400).send({
         status: "error",
         message: "History is empty after startup indexing.",
       });
     }
+    const refusal = await budgetRefusal();
+    if (refusal) {
+      return reply.code(429).send(refusal);
+    }
 
     try {
-      return await generateSuggestedQueue(indexedPosts, config);
+      const prompts = await loadPrompts();
+      const themeIndex = await withUsageRecord("/history/themes/rebuild", (onUsage) =>
+        buildThemeIndex(indexedPosts, {
+          provider: llmProvider,
+          model: config.openaiModel,
+          embeddingModel: config.openaiEmbeddingModel,
+          embeddingStore,
+          count: parseBoundedInt(query.count, config.themeCount, MAX_THEME_COUNT),
+          labels: query.labels === "terms" || query.labels === "llm" ? query.labels : config.themeLabels,
+          prompts,
+          signal,
+          onUsage,
+        }),
+      );
+      await saveThemeIndex(themeIndex);
+      const { membership: _membership, ...summary } = themeIndex;
+      return { status: "ok", ...summary };
     } catch (error) {
-      const message = error instanceof Error ? error.message : "rag_generation_failed";
-      app.log.error({ err: error }, "RAG suggestion generation failed");
-      return reply.code(502).send({
+      app.log.error({ err: error }, "Theme clustering failed");
+      return sendLlmFailure(reply, error, "Theme clustering failed");
+    }
+  });
+
+  app.get("/history/themes", async (_request, reply) => {
+    const themeIndex = await loadCurrentThemeIndex(history.posts());
+    if ("statusCode" in themeIndex) {
+      return reply.code(themeIndex.statusCode).send({ status: "error", message: themeIndex.message });
+    }
+    const { membership: _membership, ...summary } = themeIndex;
+    return { status: "ok", ...summary };
+  });
+
+  app.get("/history/gaps", async (request, reply) => {
+    const query = (request.query ?? {}) as GapsQuery;
+    const indexedPosts = history.posts();
+    const themeIndex = await loadCurrentThemeIndex(indexedPosts);
+    if ("statusCode" in themeIndex) {
+      return reply.code(themeIndex.statusCode).send({ status: "error", message: themeIndex.message });
+    }
+    return {
+      status: "ok",
+      themesGeneratedAt: themeIndex.generatedAt,
+      gaps: findContentGaps(indexedPosts, themeIndex, { limit: parseBoundedInt(query.limit, 10, MAX_GAPS) }),
+    };
+  });
+
+  app.get("/usage", async (request) => {
+    const query = (request.query ?? {}) as UsageQuery;
+    const days = parseBoundedInt(query.days, 14, 90);
+    const weeks = parseBoundedInt(query.weeks, 8, 52);
+    const now = new Date();
+    const records = await loadUsageRecords(usageSinceDate(now, days, weeks));
+    const { daily, weekly } = aggregateUsage(records, config.llmPrices, { now, days, weeks });
+    const today = daily[daily.length - 1];
+    const budgetUsd = config.llmDailyBudgetUsd > 0 ? config.llmDailyBudgetUsd : null;
+    return {
+      status: "ok",
+      generatedAt: now.toISOString(),
+      timeZone: "UTC",
+      budget: {
+        dailyUsd: budgetUsd,
+        spentTodayUsd: today?.costUsd ?? 0,
+        remainingUsd: budgetUsd === null ? null : Math.max(0, budgetUsd - (today?.costUsd ?? 0)),
+      },
+      daily,
+      weekly,
+    };
+  });
+
+  app.get("/queue/suggest10", async (request, reply) => {
+    const query = (request.query ?? {}) as GenerationQuery;
+    const seed = parseSeed(query.seed);
+    if (seed === null) {
+      return reply.code(400).send({ status: "error", message: "seed must be an integer in range 0..2147483647" });
+    }
+    const signal = replyAbortSignal(reply);
+    const indexedPosts = history.posts();
+    if (indexedPosts.length === 0) {
+      return reply.code(400).send({
         status: "error",
-        message: `RAG generation failed: ${message}`,
+        message: "History is empty after startup indexing.",
       });
     }
+    const refusal = await budgetRefusal();
+    if (refusal) {
+      return reply.code(429).send(refusal);
+    }
+
+    const run = await preparePlanRun(query, seed, indexedPosts);
+    if ("statusCode" in run) {
+      return reply.code(run.statusCode).send({ status: "error", message: run.message });
+    }
+    if (run.seed !== undefined && config.llmProvider === "openai") {
+      return reply.code(400).send({ status: "error", message: SEED_UNSUPPORTED });
+    }
+
+    try {
+      const prompts = await loadPrompts();
+      return await withUsageRecord("/queue/suggest10", (onUsage) =>
+        generateSuggestedQueue(indexedPosts, config, embeddingStore, llmProvider, prompts, run, signal, onUsage),
+      );
+    } catch (error) {
+      app.log.error({ err: error }, "RAG suggestion generation failed");
+      return sendLlmFailure(reply, error, "RAG generation failed");
+    }
   });
 
-  app.get("/queue/next10", async (_request, reply) => {
+  app.get("/queue/next10", async (request, reply) => {
+    const query = (request.query ?? {}) as GenerationQuery;
+    const seed = parseSeed(query.seed);
+    if (seed === null) {
+      return reply.code(400).send({ status: "error", message: "seed must be an integer in range 0..2147483647" });
+    }
+    const signal = replyAbortSignal(reply);
+    const indexedPosts = history.posts();
     if (indexedPosts.length === 0) {
       return reply.code(400).send({
         status: "error",
         message: "History is empty after startup indexing.",
       });
     }
+    const refusal = await budgetRefusal();
+    if (refusal) {
+      return reply.code(429).send(refusal);
+    }
+
+    const run = await preparePlanRun(query, seed, indexedPosts);
+    if ("statusCode" in run) {
+      return reply.code(run.statusCode).send({ status: "error", message: run.message });
+    }
+    if (run.seed !== undefined && config.llmProvider === "openai") {
+      return reply.code(400).send({ status: "error", message: SEED_UNSUPPORTED });
+    }
 
     try {
-      return await generateAndSaveQueue(indexedPosts, config);
+      const prompts = await loadPrompts();
+      return await withUsageRecord("/queue/next10", (onUsage) =>
+        generateAndSaveQueue(indexedPosts, config, embeddingStore, llmProvider, prompts, run, signal, onUsage),
+      );
     } catch (error) {
-      const message = error instanceof Error ? error.message : "rag_generation_failed";
       app.log.error({ err: error }, "RAG generation failed");
-      return reply.code(502).send({
-        status: "error",
-        message: `RAG generation failed: ${message}`,
-      });
+      return sendLlmFailure(reply, error, "RAG generation failed");
     }
   });
 
@@ -226,6 +701,7 @@ async function main(): Promise<void> {
   });
 
   app.post("/queue/init-empty", async () => {
+    const indexedPosts = history.posts();
     const latest = await loadLatestPlan();
     if (latest) {
       return {
@@ -273,13 +749,15 @@ async function main(): Promise<void> {
     const queue = buildQueueFromTopics(topics, latest?.queue ?? []);
     const queueId = latest?.queueId ?? createPlanId();
     const createdAt = latest?.createdAt ?? new Date().toISOString();
-    const totalPosts = latest?.totalPosts ?? indexedPosts.length;
+    const totalPosts = latest?.totalPosts ?? history.posts().length;
     await saveLatestPlan({
       queueId,
       createdAt,
       mode: "rag",
       totalPosts,
       queue,
+      language: latest?.language,
+      promptVersions: latest?.promptVersions,
     });
 
     return {
@@ -330,7 +808,8 @@ async function main(): Promise<void> {
       rank: index + 1,
       weekIndex: index + 1,
     }));
-    await saveLatestPlan({ ...latest, queue: normalized });
+    // Переставленная вручную очередь уже не результат seeded-прогона, и replay ее не воспроизведет.
+    await saveLatestPlan({ ...latest, queue: normalized, seed: undefined, inputs: undefined });
 
     return {
       status: "ok",
@@ -361,7 +840,7 @@ async function main(): Promise<void> {
       .filter((_, i) => i !== index - 1)
       .map((item) => item.topic);
     const queue = buildQueueFromTopics(topics, latest.queue);
-    await saveLatestPlan({ ...latest, queue });
+    await saveLatestPlan({ ...latest, queue, seed: undefined, inputs: undefined });
 
     return {
       status: "ok",
@@ -371,6 +850,7 @@ async function main(): Promise<void> {
   });
 
   app.post<{ Body: DraftRequestBody }>("/draft", async (request, reply) => {
+    const indexedPosts = history.posts();
     if (indexedPosts.length === 0) {
       return reply.code(400).send({
         status: "error",
@@ -381,6 +861,13 @@ async function main(): Promise<void> {
     const queueItem = request.body?.queueItem;
     const queueId = request.body?.queueId?.trim();
     const directTopic = request.body?.topic?.trim();
+    const seed = parseSeed(request.body?.seed);
+    if (seed === null) {
+      return reply.code(400).send({ status: "error", message: "seed must be an integer in range 0..2147483647" });
+    }
+    if (seed !== undefined && config.llmProvider === "openai") {
+      return reply.code(400).send({ status: "error", message: SEED_UNSUPPORTED });
+    }
     let topic = directTopic;
     let resolvedQueueId: string | undefined;
 
@@ -425,30 +912,116 @@ async function main(): Promise<void> {
       });
     }
 
+    const refusal = await budgetRefusal();
+    if (refusal) {
+      return reply.code(429).send(refusal);
+    }
+
     let draft;
+    let language;
     try {
-      draft = await buildDraftPostRag(indexedPosts, topic, {
-        apiKey: config.openaiApiKey,
-        model: config.openaiModel,
-        embeddingModel: config.openaiEmbeddingModel,
-        topK: config.ragTopK,
-      });
+      const signal = replyAbortSignal(reply);
+      const prompts = await loadPrompts();
+      language = prompts.language;
+      draft = await withUsageRecord("/draft", (onUsage) =>
+        buildDraftPostRag(indexedPosts, topic, {
+          provider: llmProvider,
+          model: config.openaiModel,
+          embeddingModel: config.openaiEmbeddingModel,
+          topK: config.ragTopK,
+          retrievalWeights: config.retrievalWeights,
+          seed,
+          embeddingStore,
+          signal,
+          onUsage,
+          prompts,
+        }),
+      );
     } catch (error) {
-      const message = error instanceof Error ? error.message : "draft_generation_failed";
       app.log.error({ err: error, topic }, "Draft generation failed");
-      return reply.code(502).send({
-        status: "error",
-        message: `Draft generation failed: ${message}`,
-      });
+      return sendLlmFailure(reply, error, "Draft generation failed");
     }
 
+    const draftId = createDraftId();
+    await saveDraft({
+      draftId,
+      createdAt: new Date().toISOString(),
+      topic,
+      queueId: resolvedQueueId,
+      queueItem: resolvedQueueId ? queueItem : undefined,
+      seed,
+      language,
+      promptVersion: draft.promptVersion,
+      draft,
+    });
+
     return {
       status: "ok",
+      draftId,
       queueId: resolvedQueueId,
+      seed,
       draft,
     };
   });
 
+  app.get<{ Params: { draftId: string } }>("/drafts/:draftId", async (request, reply) => {
+    const stored = await loadDraft(request.params.draftId);
+    if (!stored) {
+      return reply.code(404).send({ status: "error", message: `Draft not found: ${request.params.draftId}` });
+    }
+    return { status: "ok", ...stored };
+  });
+
+  app.post<{ Body: RetrievalExplainBody }>("/retrieval/explain", async (request, reply) => {
+    const topic = request.body?.topic?.trim();
+    if (!topic) {
+      return reply.code(400).send({ status: "error", message: "Provide topic" });
+    }
+    const indexedPosts = history.posts();
+    if (indexedPosts.length === 0) {
+      return reply.code(400).send({
+        status: "error",
+        message: "History is empty after startup indexing.",
+      });
+    }
+    const refusal = await budgetRefusal();
+    if (refusal) {
+      return reply.code(429).send(refusal);
+    }
+    const limit = parseBoundedInt(String(request.body?.limit ?? ""), 50, 500);
+
+    try {
+      const signal = replyAbortSignal(reply);
+      const explanation = await withUsageRecord("/retrieval/explain", (onUsage) =>
+        explainDraftReferences(indexedPosts, topic, {
+          provider: llmProvider,
+          embeddingModel: config.openaiEmbeddingModel,
+          retrievalWeights: config.retrievalWeights,
+          embeddingStore,
+          hints: {
+            topicKeywords: toStringList(request.body?.topicKeywords),
+            mustHaveKeywords: toStringList(request.body?.mustHaveKeywords),
+            mustHaveSynonyms: toStringList(request.body?.mustHaveSynonyms),
+            excludeKeywords: toStringList(request.body?.excludeKeywords),
+            citedPostKeys: toStringList(request.body?.citedPostKeys),
+          },
+          signal,
+          onUsage,
+        }),
+      );
+      return {
+        status: "ok",
+        ...explanation,
+        totalCandidates: explanation.candidates.length,
+        accepted: explanation.candidates.filter((candidate) => candidate.rank !== null).length,
+        candidates: explanation.candidates.slice(0, limit),
+      };
+    } catch (error) {
+      app.log.error({ err: error, topic }, "Retrieval explain failed");
+      return sendLlmFailure(reply, error, "Retrieval explain failed");
+    }
+  });
+
   await app.listen({ host: "0.0.0.0", port: config.apiPort });
 }
 
@@ -0,0 +1,58 @@
+import type { FastifyReply } from "fastify";
+import { LlmError, type LlmErrorKind } from "@sail-away/core";
+
+export interface LlmFailure {
+  statusCode: number;
+  errorKind?: LlmErrorKind;
+  /** Seconds for the `Retry-After` header. */
+  retryAfterSeconds?: number;
+}
+
+const STATUS_BY_KIND: Record<LlmErrorKind, number> = {
+  rate_limit: 429,
+  // Квоту пополняют вручную: повтор клиента не поможет, как и при ошибке ключа.
+  quota: 502,
+  timeout: 504,
+  unavailable: 503,
+  // Клиент уже отключился, код нужен только для логов (как 499 у nginx).
+  aborted: 499,
+  auth: 502,
+  bad_request: 502,
+  invalid_output: 502,
+};
+
+/** HTTP status for a failed generation; errors outside LLM calls stay 502. */
+export function describeLlmFailure(error: unknown): LlmFailure {
+  if (!(error instanceof LlmError)) {
+    return { statusCode: 502 };
+  }
+  return {
+    statusCode: STATUS_BY_KIND[error.kind],
+    errorKind: error.kind,
+    retryAfterSeconds: error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined,
+  };
+}
+
+export function sendLlmFailure(reply: FastifyReply, error: unknown, prefix: string) {
+  const failure = describeLlmFailure(error);
+  if (failure.retryAfterSeconds !== undefined) {
+    reply.header("retry-after", String(failure.retryAfterSeconds));
+  }
+  const message = error instanceof Error ? error.message : "generation_failed";
+  return reply.code(failure.statusCode).send({
+    status: "error",
+    errorKind: failure.errorKind,
+    message: `${prefix}: ${message}`,
+  });
+}
+
+/** Aborted when the client closes the connection before the response is sent. */
+export function replyAbortSignal(reply: FastifyReply): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.once("close", () => {
+    if (!reply.raw.writableFinished) {
+      controller.abort(new Error("client_disconnected"));
+    }
+  });
+  return controller.signal;
+}
@@ -1,6 +1,7 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { PlanItem } from "@sail-away/core";
+import type { ContentGap, PlanItem, PreviousTopic, PromptLanguage } from "@sail-away/core";
 
 export interface QueueItem extends PlanItem {
   weekIndex: number;
@@ -14,27 +15,62 @@ export interface StoredQueue {
   mode: "rag";
   totalPosts: number;
   queue: QueueItem[];
+  /** Absent for queues saved before prompt templates and for queues entered by hand from scratch. */
+  language?: PromptLanguage;
+  promptVersions?: Record<string, string>;
+  /** Seed of a seeded run; cleared once the queue is edited by hand (swap, remove, replace). */
+  seed?: number;
+  /** Everything besides the seed a seeded run depended on; absent for unseeded and edited runs. */
+  inputs?: PlanInputs;
+}
+
+/**
+ * Inputs of a seeded run, replayed by `?replay=<queueId>`. Seeded runs need a
+ * provider that honors the seed; the OpenAI Responses API has none.
+ */
+export interface PlanInputs {
+  /** Clock for post recency and the weekly slots. */
+  referenceTime: string;
+  /** `historyChecksum` of the indexed posts. */
+  historyChecksum: string;
+  /** Topics of earlier queues the new topics had to avoid. */
+  previousTopics: PreviousTopic[];
+  /** Content gaps the topic seeds started from (`?gaps=true`). */
+  gaps?: ContentGap[];
 }
 
 function queueStorePath(): string {
   return path.resolve(process.cwd(), "data", "latest-queue.json");
 }
 
-export function createPlanId(): string {
-  const ts = new Date().toISOString().replace(/[-:.TZ]/g, "");
-  const suffix = Math.random().toString(36).slice(2, 8);
-  return `queue_${ts}_${suffix}`;
+function queueArchiveDir(): string {
+  return path.resolve(process.cwd(), "data", "queues");
 }
 
-export async function saveLatestPlan(data: StoredQueue): Promise<void> {
-  const filePath = queueStorePath();
-  await mkdir(path.dirname(filePath), { recursive: true });
-  await writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+function archivePath(queueId: string): string {
+  return path.join(queueArchiveDir(), `${queueId.replace(/[^\w-]/g, "_")}.json`);
 }
 
-export async function loadLatestPlan(): Promise<StoredQueue | null> {
+/**
+ * Random for unseeded runs. A seeded run's id is derived from its seed and
+ * inputs (time from `referenceTime`, suffix from their hash), so the same run
+ * always gets the same id; a replay differs by `replayOf`.
+ */
+export function createPlanId(run?: { seed: number; inputs: PlanInputs; replayOf?: string }): string {
+  if (!run) {
+    const ts = new Date().toISOString().replace(/[-:.TZ]/g, "");
+    return `queue_${ts}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+  const ts = new Date(run.inputs.referenceTime).toISOString().replace(/[-:.TZ]/g, "");
+  const suffix = createHash("sha256")
+    .update(JSON.stringify([run.seed, run.inputs, run.replayOf ?? null]))
+    .digest("hex")
+    .slice(0, 8);
+  return `queue_${ts}_seed${run.seed}_${suffix}`;
+}
+
+function parseStoredQueue(raw: string): StoredQueue | null {
   try {
-    const raw = await readFile(queueStorePath(), "utf-8");
     const parsed = JSON.parse(raw) as Partial<StoredQueue>;
     if (
       !parsed ||
@@ -51,3 +87,47 @@ export async function loadLatestPlan(): Promise<StoredQueue | null> {
     return null;
   }
 }
+
+/** Saves the queue as the latest one and keeps its last version in `data/queues/<queueId>.json`. */
+export async function saveLatestPlan(data: StoredQueue): Promise<void> {
+  const filePath = queueStorePath();
+  const content = JSON.stringify(data, null, 2);
+  await mkdir(queueArchiveDir(), { recursive: true });
+  await writeFile(archivePath(data.queueId), content, "utf-8");
+  await writeFile(filePath, content, "utf-8");
+}
+
+export async function loadArchivedPlan(queueId: string): Promise<StoredQueue | null> {
+  try {
+    const queue = parseStoredQueue(await readFile(archivePath(queueId), "utf-8"));
+    return queue?.queueId === queueId ? queue : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadLatestPlan(): Promise<StoredQueue | null> {
+  try {
+    return parseStoredQueue(await readFile(queueStorePath(), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/** Every saved queue, oldest first, including a latest queue saved before the archive existed. */
+export async function loadQueueArchive(): Promise<StoredQueue[]> {
+  let names: string[] = [];
+  try {
+    names = (await readdir(queueArchiveDir())).filter((name) => name.endsWith(".json"));
+  } catch {
+    // Архива еще нет: очереди сохранялись только в latest-queue.json.
+  }
+  const byId = new Map<string, StoredQueue>();
+  for (const name of names) {
+    const queue = parseStoredQueue(await readFile(path.join(queueArchiveDir(), name), "utf-8"));
+    if (queue) byId.set(queue.queueId, queue);
+  }
+  const latest = await loadLatestPlan();
+  if (latest && !byId.has(latest.queueId)) byId.set(latest.queueId, latest);
+  return Array.from(byId.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
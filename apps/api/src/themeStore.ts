@@ -0,0 +1,31 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ThemeIndex } from "@sail-away/core";
+
+function themeStorePath(): string {
+  return path.resolve(process.cwd(), "data", "themes.json");
+}
+
+/** Themes with per-post membership of the last clustering run. */
+export async function saveThemeIndex(index: ThemeIndex): Promise<void> {
+  const filePath = themeStorePath();
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(index, null, 2), "utf-8");
+}
+
+export async function loadThemeIndex(): Promise<ThemeIndex | null> {
+  try {
+    const parsed = JSON.parse(await readFile(themeStorePath(), "utf-8")) as Partial<ThemeIndex>;
+    if (
+      !parsed ||
+      typeof parsed.generatedAt !== "string" ||
+      !Array.isArray(parsed.themes) ||
+      !Array.isArray(parsed.membership)
+    ) {
+      return null;
+    }
+    return parsed as ThemeIndex;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { UsageListener, UsageRecord } from "@sail-away/core";
+
+const USAGE_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+function usageDir(): string {
+  return path.resolve(process.cwd(), "data", "usage");
+}
+
+function isUsageRecord(value: unknown): value is UsageRecord {
+  const record = value as Partial<UsageRecord> | null;
+  return (
+    !!record &&
+    typeof record.requestId === "string" &&
+    typeof record.route === "string" &&
+    typeof record.startedAt === "string" &&
+    Array.isArray(record.calls)
+  );
+}
+
+/** One JSON line per metered request, in a file per UTC day of `startedAt`. */
+export async function appendUsageRecord(record: UsageRecord): Promise<void> {
+  const dir = usageDir();
+  await mkdir(dir, { recursive: true });
+  await appendFile(path.join(dir, `${record.startedAt.slice(0, 10)}.jsonl`), `${JSON.stringify(record)}\n`, "utf-8");
+}
+
+/** Records from day files dated `sinceDate` (`YYYY-MM-DD`, UTC) or later; broken lines are skipped. */
+export async function loadUsageRecords(sinceDate: string): Promise<UsageRecord[]> {
+  const dir = usageDir();
+  const names = await readdir(dir).catch(() => [] as string[]);
+  const files = names
+    .filter((name) => {
+      const match = name.match(USAGE_FILE_PATTERN);
+      return match !== null && match[1] >= sinceDate;
+    })
+    .sort();
+
+  const records: UsageRecord[] = [];
+  for (const name of files) {
+    const raw = await readFile(path.join(dir, name), "utf-8").catch(() => "");
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line) as unknown;
+        if (isUsageRecord(parsed)) records.push(parsed);
+      } catch {
+        // Недописанная строка после падения процесса.
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Runs one generation with a usage listener and persists the calls it made,
+ * also when it fails halfway: those tokens are billed all the same.
+ */
+export async function withUsageRecord<T>(route: string, run: (onUsage: UsageListener) => Promise<T>): Promise<T> {
+  const record: UsageRecord = {
+    requestId: randomUUID(),
+    route,
+    startedAt: new Date().toISOString(),
+    status: "ok",
+    calls: [],
+  };
+  try {
+    return await run((entry) => record.calls.push(entry));
+  } catch (error) {
+    record.status = "error";
+    throw error;
+  } finally {
+    if (record.calls.length > 0) {
+      await appendUsageRecord(record).catch((error) => {
+        console.error("[usage.persist_error]", { route, requestId: record.requestId, error });
+      });
+    }
+  }
+}
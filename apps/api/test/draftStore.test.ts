@@ -0,0 +1,32 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createDraftId, loadDraft, saveDraft, type StoredDraft } from "../src/draftStore";
+import { withTempCwd } from "./tempCwd";
+
+const storedDraft: StoredDraft = {
+  draftId: createDraftId(),
+  createdAt: "2026-03-04T10:00:00.000Z",
+  topic: "Аптечка на яхте",
+  queueId: "queue_test_123",
+  queueItem: 2,
+  language: "ru",
+  promptVersion: "ru/draft@1",
+  draft: {
+    topic: "Аптечка на яхте",
+    text: "Черновик",
+    imageOptions: [],
+    sourcePostIds: ["1"],
+    references: [],
+    mode: "rag",
+    promptVersion: "ru/draft@1",
+  },
+};
+
+test("saveDraft and loadDraft roundtrip with the prompt version", async () => {
+  await withTempCwd(async () => {
+    assert.equal(await loadDraft(storedDraft.draftId), null);
+    await saveDraft(storedDraft);
+    assert.deepEqual(await loadDraft(storedDraft.draftId), storedDraft);
+    assert.equal(await loadDraft("draft_missing"), null);
+  });
+});
@@ -0,0 +1,102 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createHistoryRuntime } from "../src/historyRuntime";
+
+const silentLogger = {
+  info: () => undefined,
+  error: () => undefined,
+};
+
+async function writeOwnHistory(dir: string, texts: string[]): Promise<void> {
+  await writeFile(
+    path.join(dir, "own.json"),
+    JSON.stringify({
+      channel: "own",
+      platform: "telegram",
+      posts: texts.map((text, index) => ({
+        id: String(index + 1),
+        published_at: "2026-01-10T12:00:00Z",
+        text,
+      })),
+    }),
+    "utf-8",
+  );
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error("wait_timeout");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+test("reload bumps generation and swaps posts", async () => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-api-history-"));
+  await writeOwnHistory(tmpDir, ["Первый пост"]);
+  const runtime = createHistoryRuntime(tmpDir, silentLogger);
+
+  await runtime.reload();
+  await writeOwnHistory(tmpDir, ["Первый пост", "Второй пост"]);
+  await runtime.reload();
+  await rm(tmpDir, { recursive: true, force: true });
+
+  assert.equal(runtime.status().generation, 2);
+  assert.equal(runtime.posts().length, 2);
+  assert.equal(runtime.status().lastReloadError, null);
+});
+
+test("failed reload keeps previous posts and reports the error", async () => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-api-history-"));
+  await writeOwnHistory(tmpDir, ["Первый пост"]);
+  const runtime = createHistoryRuntime(tmpDir, silentLogger);
+  await runtime.reload();
+
+  await rm(tmpDir, { recursive: true, force: true });
+  await assert.rejects(() => runtime.reload());
+
+  const status = runtime.status();
+  assert.equal(status.generation, 1);
+  assert.equal(status.totalPosts, 1);
+  assert.match(status.lastReloadError ?? "", /ENOENT/);
+});
+
+test("reload skips broken files and exposes the validation report", async () => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-api-history-"));
+  await writeOwnHistory(tmpDir, ["Первый пост"]);
+  await writeFile(path.join(tmpDir, "broken.json"), "{not-valid-json", "utf-8");
+  const runtime = createHistoryRuntime(tmpDir, silentLogger);
+
+  await runtime.reload();
+  await rm(tmpDir, { recursive: true, force: true });
+
+  assert.equal(runtime.posts().length, 1);
+  assert.equal(runtime.report()?.filesSkipped, 1);
+  assert.equal(runtime.report()?.issues[0]?.code, "invalid_json");
+});
+
+test("watch mode reloads the index after debounced changes", async () => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-api-history-"));
+  const ownDir = path.join(tmpDir, "own-channel");
+  await mkdir(ownDir, { recursive: true });
+  await writeOwnHistory(ownDir, ["Первый пост"]);
+  const runtime = createHistoryRuntime(tmpDir, silentLogger);
+  await runtime.reload();
+
+  runtime.startWatching(50);
+  try {
+    await writeOwnHistory(ownDir, ["Первый пост", "Второй пост", "Третий пост"]);
+    await waitFor(() => runtime.posts().length === 3);
+  } finally {
+    runtime.stop();
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+
+  assert.equal(runtime.status().watching, false);
+  assert.ok(runtime.status().generation >= 2);
+});
@@ -0,0 +1,34 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import type { FastifyReply } from "fastify";
+import { LlmError } from "@sail-away/core";
+import { describeLlmFailure, replyAbortSignal } from "../src/llmErrors";
+
+test("describeLlmFailure maps LLM error kinds to status codes", () => {
+  assert.deepEqual(describeLlmFailure(new LlmError("rate_limit", "429 Too Many Requests", { retryAfterMs: 1500 })), {
+    statusCode: 429,
+    errorKind: "rate_limit",
+    retryAfterSeconds: 2,
+  });
+  assert.equal(describeLlmFailure(new LlmError("quota", "insufficient_quota")).statusCode, 502);
+  assert.equal(describeLlmFailure(new LlmError("timeout", "timed out")).statusCode, 504);
+  assert.equal(describeLlmFailure(new LlmError("unavailable", "503")).statusCode, 503);
+  assert.equal(describeLlmFailure(new LlmError("invalid_output", "invalid_plan_response")).statusCode, 502);
+  assert.deepEqual(describeLlmFailure(new Error("seed_candidates_empty")), { statusCode: 502 });
+});
+
+test("replyAbortSignal aborts only when the connection closes before the response", () => {
+  const makeReply = (writableFinished: boolean) =>
+    ({ raw: Object.assign(new EventEmitter(), { writableFinished }) }) as unknown as FastifyReply;
+
+  const disconnected = makeReply(false);
+  const disconnectedSignal = replyAbortSignal(disconnected);
+  disconnected.raw.emit("close");
+  assert.equal(disconnectedSignal.aborted, true);
+
+  const answered = makeReply(true);
+  const answeredSignal = replyAbortSignal(answered);
+  answered.raw.emit("close");
+  assert.equal(answeredSignal.aborted, false);
+});
@@ -1,20 +1,16 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
-import os from "node:os";
-import { createPlanId, loadLatestPlan, saveLatestPlan, type StoredQueue } from "../src/planStore";
-
-async function withTempCwd(run: () => Promise<void>): Promise<void> {
-  const previousCwd = process.cwd();
-  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-api-test-"));
-  process.chdir(tmpDir);
-  try {
-    await run();
-  } finally {
-    process.chdir(previousCwd);
-  }
-}
+import {
+  createPlanId,
+  loadArchivedPlan,
+  loadLatestPlan,
+  loadQueueArchive,
+  saveLatestPlan,
+  type StoredQueue,
+} from "../src/planStore";
+import { withTempCwd } from "./tempCwd";
 
 function buildStoredQueue(): StoredQueue {
   return {
@@ -49,6 +45,17 @@ test("createPlanId generates different ids", () => {
   assert.notEqual(a, b);
 });
 
+test("createPlanId derives seeded run ids from the seed and inputs", () => {
+  const inputs = { referenceTime: "2026-02-22T10:00:00.000Z", historyChecksum: "abc", previousTopics: [] };
+  const id = createPlanId({ seed: 42, inputs });
+
+  assert.match(id, /^queue_20260222100000000_seed42_[0-9a-f]{8}$/);
+  assert.equal(createPlanId({ seed: 42, inputs: { ...inputs } }), id);
+  assert.notEqual(createPlanId({ seed: 43, inputs }), id);
+  assert.notEqual(createPlanId({ seed: 42, inputs: { ...inputs, historyChecksum: "def" } }), id);
+  assert.notEqual(createPlanId({ seed: 42, inputs, replayOf: id }), id);
+});
+
 test("saveLatestPlan and loadLatestPlan roundtrip", async () => {
   await withTempCwd(async () => {
     const expected = buildStoredQueue();
@@ -106,3 +113,51 @@ test("loadLatestPlan returns null when queue is not an array", async () => {
     assert.equal(loaded, null);
   });
 });
+
+test("loadQueueArchive keeps every saved queue, oldest first", async () => {
+  await withTempCwd(async () => {
+    const first = buildStoredQueue();
+    const second = { ...buildStoredQueue(), queueId: "queue_test_456", createdAt: "2026-03-01T00:00:00.000Z" };
+    await saveLatestPlan(second);
+    await saveLatestPlan(first);
+    await saveLatestPlan({ ...first, queue: [] });
+
+    const archive = await loadQueueArchive();
+    assert.deepEqual(
+      archive.map((queue) => [queue.queueId, queue.queue.length]),
+      [
+        ["queue_test_123", 0],
+        ["queue_test_456", 1],
+      ],
+    );
+  });
+});
+
+test("loadQueueArchive includes a latest queue saved before the archive", async () => {
+  await withTempCwd(async () => {
+    const dir = path.resolve(process.cwd(), "data");
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, "latest-queue.json"), JSON.stringify(buildStoredQueue()), "utf-8");
+
+    const archive = await loadQueueArchive();
+    assert.deepEqual(
+      archive.map((queue) => queue.queueId),
+      ["queue_test_123"],
+    );
+  });
+});
+
+test("loadArchivedPlan returns a saved queue with its run inputs", async () => {
+  await withTempCwd(async () => {
+    const inputs = {
+      referenceTime: "2026-02-22T00:00:00.000Z",
+      historyChecksum: "abc",
+      previousTopics: [{ topic: "Старая тема", queueId: "queue_old", rank: 1 }],
+    };
+    await saveLatestPlan({ ...buildStoredQueue(), seed: 42, inputs });
+    await saveLatestPlan({ ...buildStoredQueue(), queueId: "queue_test_456" });
+
+    assert.deepEqual((await loadArchivedPlan("queue_test_123"))?.inputs, inputs);
+    assert.equal(await loadArchivedPlan("queue_missing"), null);
+  });
+});
@@ -0,0 +1,16 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+
+/** Runs `run` inside a fresh temporary directory, so stores write their `data/` there. */
+export async function withTempCwd(run: () => Promise<void>): Promise<void> {
+  const previousCwd = process.cwd();
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-api-test-"));
+  process.chdir(tmpDir);
+  try {
+    await run();
+  } finally {
+    process.chdir(previousCwd);
+    await rm(tmpDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,43 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ThemeIndex } from "@sail-away/core";
+import { loadThemeIndex, saveThemeIndex } from "../src/themeStore";
+import { withTempCwd } from "./tempCwd";
+
+const themeIndex: ThemeIndex = {
+  generatedAt: "2026-03-04T10:00:00.000Z",
+  labeledWith: "terms",
+  historyChecksum: "history-checksum",
+  totalPosts: 1,
+  themes: [
+    {
+      id: "theme_1",
+      label: "аптечка, бинты",
+      topTerms: ["аптечка", "бинты"],
+      size: 1,
+      sizeByKind: { own: 1, similar: 0 },
+      engagement: { avgScore: 0.5, avgReactions: 3, avgViews: null },
+      latestPostAt: "2026-03-01T10:00:00Z",
+      examples: [],
+    },
+  ],
+  membership: [{ channel: "Sail Away", id: "1", themeId: "theme_1", similarity: 1 }],
+};
+
+test("saveThemeIndex and loadThemeIndex roundtrip with membership", async () => {
+  await withTempCwd(async () => {
+    assert.equal(await loadThemeIndex(), null);
+    await saveThemeIndex(themeIndex);
+    assert.deepEqual(await loadThemeIndex(), themeIndex);
+  });
+});
+
+test("loadThemeIndex returns null for an invalid file", async () => {
+  await withTempCwd(async () => {
+    await mkdir(path.resolve(process.cwd(), "data"), { recursive: true });
+    await writeFile(path.resolve(process.cwd(), "data", "themes.json"), JSON.stringify({ themes: [] }), "utf-8");
+    assert.equal(await loadThemeIndex(), null);
+  });
+});
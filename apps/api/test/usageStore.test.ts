@@ -0,0 +1,66 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { LlmUsageEntry } from "@sail-away/core";
+import { appendUsageRecord, loadUsageRecords, withUsageRecord } from "../src/usageStore";
+import { withTempCwd } from "./tempCwd";
+
+const entry: LlmUsageEntry = {
+  at: "2026-03-04T10:00:00.000Z",
+  kind: "text",
+  purpose: "draft",
+  provider: "fake",
+  model: "gpt-5-mini",
+  inputTokens: 120,
+  outputTokens: 40,
+};
+
+test("loadUsageRecords reads day files from the given date and skips broken lines", async () => {
+  await withTempCwd(async () => {
+    await appendUsageRecord({
+      requestId: "a",
+      route: "/draft",
+      startedAt: "2026-03-01T10:00:00.000Z",
+      status: "ok",
+      calls: [entry],
+    });
+    await appendUsageRecord({
+      requestId: "b",
+      route: "/draft",
+      startedAt: "2026-03-04T10:00:00.000Z",
+      status: "ok",
+      calls: [entry],
+    });
+    await writeFile(path.resolve("data", "usage", "2026-03-05.jsonl"), '{"requestId":"c"\n', "utf-8");
+
+    const records = await loadUsageRecords("2026-03-02");
+
+    assert.deepEqual(
+      records.map((record) => record.requestId),
+      ["b"],
+    );
+  });
+});
+
+test("withUsageRecord persists calls of failed runs and skips runs without calls", async () => {
+  await withTempCwd(async () => {
+    await assert.rejects(
+      () =>
+        withUsageRecord("/queue/next10", async (onUsage) => {
+          onUsage(entry);
+          throw new Error("invalid_plan_response");
+        }),
+      /invalid_plan_response/,
+    );
+    assert.equal(await withUsageRecord("/draft", async () => "no calls"), "no calls");
+
+    const files = await readdir(path.resolve("data", "usage"));
+    const records = await loadUsageRecords("2000-01-01");
+    assert.equal(files.length, 1);
+    assert.equal(records.length, 1);
+    assert.equal(records[0]?.route, "/queue/next10");
+    assert.equal(records[0]?.status, "error");
+    assert.deepEqual(records[0]?.calls, [entry]);
+  });
+});
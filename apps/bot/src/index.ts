@@ -26,6 +26,7 @@ interface ApiDraft {
     channel: string;
     snippet: string;
     url?: string;
+    origin?: "cited" | "similar";
   }>;
   mode: "rag";
 }
@@ -43,6 +44,37 @@ interface ApiQueueCreateResponse {
   queue?: ApiQueueItem[];
 }
 
+interface ApiDistributionStats {
+  count: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+interface ApiChannelStats {
+  channel: string;
+  kind: "own" | "similar";
+  totalPosts: number;
+  firstPostAt: string | null;
+  lastPostAt: string | null;
+  postsByMonth: Record<string, number>;
+  reactions: ApiDistributionStats;
+  views: ApiDistributionStats | null;
+  avgTextLength: number;
+  mediaShare: number;
+  weekdayHistogram: number[];
+  hourHistogram: number[];
+}
+
+interface ApiHistoryStatsResponse {
+  status: string;
+  stats: {
+    timeZone: string;
+    totalPosts: number;
+    channels: ApiChannelStats[];
+  };
+}
+
 function getEnv(name: string): string {
   const value = process.env[name]?.trim();
   if (!value) {
@@ -70,8 +102,16 @@ function parseTargetChatId(raw: string | undefined): number | null {
   return Number.isFinite(value) ? value : null;
 }
 
+// GET-эндпоинты, которые сами запускают платную генерацию.
+const GENERATING_GET_PATHS = new Set(["/queue/next10", "/queue/suggest10"]);
+
 async function apiFetch<T>(baseUrl: string, path: string, init?: RequestInit): Promise<T> {
-  const maxAttempts = 3;
+  // Повторы LLM-запросов (429/5xx, таймауты) делает API. Здесь повторяем только
+  // GET без генерации при недоступности самого API: обрыв соединения не значит,
+  // что API не начал генерацию, а второй запуск стоит денег.
+  const idempotent =
+    (init?.method ?? "GET").toUpperCase() === "GET" && !GENERATING_GET_PATHS.has(path.split("?")[0] ?? path);
+  const maxAttempts = idempotent ? 3 : 1;
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
     try {
       const hasBody = init?.body !== undefined && init?.body !== null;
@@ -127,10 +167,6 @@ async function tryLoadLatestQueue(baseUrl: string): Promise<ApiLatestQueue | nul
   }
 }
 
-function shouldRetryDraftError(message: string): boolean {
-  return /(^|\s)(429|500|502|503|504)(\s|$)/.test(message);
-}
-
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -155,6 +191,43 @@ function formatQueueScheduleLines(queue: ApiQueueItem[]): string[] {
   return queue.map((item) => `${item.rank}. ${item.topic}\nНеделя: ${item.weekStart} - ${item.weekEnd}`);
 }
 
+const STATS_MAX_CHANNELS = 8;
+const STATS_RECENT_MONTHS = 6;
+const WEEKDAY_SHORT_RU = ["пн", "вт", "ср", "чт", "пт", "сб", "вс"];
+
+function indexOfMax(values: number[]): number {
+  return values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+}
+
+function formatChannelStats(item: ApiChannelStats): string {
+  const period = [item.firstPostAt, item.lastPostAt].map((value) => value?.slice(0, 10) ?? "?").join(" … ");
+  const views = item.views
+    ? `Просмотры: медиана ${Math.round(item.views.median)}, p90 ${Math.round(item.views.p90)}`
+    : "Просмотры: нет данных";
+  const months = Object.entries(item.postsByMonth)
+    .slice(-STATS_RECENT_MONTHS)
+    .map(([month, count]) => `${month}: ${count}`)
+    .join(", ");
+  return [
+    `${item.channel} [${item.kind}] — ${item.totalPosts} постов, ${period}`,
+    `Реакции: медиана ${Math.round(item.reactions.median)}, p75 ${Math.round(item.reactions.p75)}, p90 ${Math.round(item.reactions.p90)}`,
+    views,
+    `Текст: ~${item.avgTextLength} симв., медиа ${Math.round(item.mediaShare * 100)}%`,
+    `Чаще всего: ${WEEKDAY_SHORT_RU[indexOfMax(item.weekdayHistogram)]}, ${String(indexOfMax(item.hourHistogram)).padStart(2, "0")}:00`,
+    `По месяцам: ${months || "-"}`,
+  ].join("\n");
+}
+
+function formatHistoryStats(stats: ApiHistoryStatsResponse["stats"]): string {
+  const shown = stats.channels.slice(0, STATS_MAX_CHANNELS);
+  const hidden = stats.channels.length - shown.length;
+  return [
+    `Статистика истории (${stats.timeZone})\nВсего постов: ${stats.totalPosts}, каналов: ${stats.channels.length}`,
+    ...shown.map(formatChannelStats),
+    ...(hidden > 0 ? [`…и еще ${hidden} каналов`] : []),
+  ].join("\n\n");
+}
+
 function getZonedNowParts(timeZone: string): { weekday: string; hour: number; minute: number; dateKey: string } {
   const dtf = new Intl.DateTimeFormat("en-US", {
     timeZone,
@@ -221,7 +294,8 @@ async function listJsonFiles(rootDir: string): Promise<string[]> {
 }
 
 async function pickLatestJsonFile(rootDir: string): Promise<string | null> {
-  const files = await listJsonFiles(rootDir);
+  const manifestPath = path.join(rootDir, "manifest.json");
+  const files = (await listJsonFiles(rootDir)).filter((filePath) => filePath !== manifestPath);
   if (files.length === 0) {
     return null;
   }
@@ -313,35 +387,18 @@ async function main(): Promise<void> {
     const current = getCurrentWeekItem(latest.queue, dateKey);
     if (!current) return;
 
-    let draftRes: { status: string; draft: ApiDraft } | null = null;
-    const maxAttempts = 3;
-    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-      try {
-        draftRes = await apiFetch<{ status: string; draft: ApiDraft }>(apiBaseUrl, "/draft", {
-          method: "POST",
-          body: JSON.stringify({
-            queueItem: current.rank,
-            queueId: latest.queueId,
-          }),
-        });
-        break;
-      } catch (error) {
-        const message = (error as Error).message;
-        const retryable = shouldRetryDraftError(message);
-        console.error("[scheduler:draft.api_error]", {
-          attempt,
-          maxAttempts,
-          retryable,
-          message,
-        });
-        if (!retryable || attempt === maxAttempts) {
-          throw error;
-        }
-        await sleep(800 * attempt);
-      }
-    }
-    if (!draftRes) {
-      return;
+    let draftRes: { status: string; draft: ApiDraft };
+    try {
+      draftRes = await apiFetch<{ status: string; draft: ApiDraft }>(apiBaseUrl, "/draft", {
+        method: "POST",
+        body: JSON.stringify({
+          queueItem: current.rank,
+          queueId: latest.queueId,
+        }),
+      });
+    } catch (error) {
+      console.error("[scheduler:draft.api_error]", { message: (error as Error).message });
+      throw error;
     }
     const message = [
       "Черновик на текущую неделю",
@@ -426,6 +483,7 @@ async function main(): Promise<void> {
     { command: "queuesuggest", description: "Предложить 10 новых тем (без замены очереди)" },
     { command: "draft", description: "Сгенерировать черновик: /draft 1" },
     { command: "historyjson", description: "Скачать актуальный JSON истории" },
+    { command: "stats", description: "Статистика истории по каналам" },
     { command: "scheduler_test", description: "Тест: сразу отправить драфт и напоминание" },
   ]);
 
@@ -448,6 +506,7 @@ async function main(): Promise<void> {
         "/queuesuggest",
         "/draft <номер_поста>",
         "/historyjson",
+        "/stats",
       ].join("\n"),
     );
   });
@@ -571,7 +630,8 @@ async function main(): Promise<void> {
       const imageLines = res.draft.imageOptions.map((opt, idx) => `${idx + 1}. ${opt}`);
       const referenceLines = (res.draft.references ?? []).map((ref, idx) => {
         const linkOrId = ref.url ? ref.url : `id=${ref.id}`;
-        return `${idx + 1}. ${ref.channel}: ${linkOrId}`;
+        const mark = ref.origin === "cited" ? " [источник черновика]" : "";
+        return `${idx + 1}. ${ref.channel}: ${linkOrId}${mark}`;
       });
       await ctx.reply(
         [
@@ -696,6 +756,26 @@ async function main(): Promise<void> {
     }
   });
 
+  bot.command("stats", async (ctx) => {
+    if (!ensureAllowed(ctx.from.id, adminIds)) {
+      await ctx.reply("Доступ запрещен.");
+      return;
+    }
+    try {
+      const res = await apiFetch<ApiHistoryStatsResponse>(
+        apiBaseUrl,
+        `/history/stats?timeZone=${encodeURIComponent(botTimeZone)}`,
+      );
+      if (res.stats.totalPosts === 0) {
+        await ctx.reply("История пуста.");
+        return;
+      }
+      await ctx.reply(formatHistoryStats(res.stats));
+    } catch (error) {
+      await ctx.reply(`Ошибка stats: ${(error as Error).message}`);
+    }
+  });
+
   bot.command("historyjson", async (ctx) => {
     if (!ensureAllowed(ctx.from.id, adminIds)) {
       await ctx.reply("Доступ запрещен.");
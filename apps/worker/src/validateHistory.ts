@@ -0,0 +1,52 @@
+import path from "node:path";
+import { reindexHistory, type HistoryValidationReport } from "@sail-away/core";
+
+interface CliArgs {
+  historyRoot: string;
+  strict: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const flags = new Set(argv.filter((arg) => arg.startsWith("--")));
+  const positional = argv.filter((arg) => !arg.startsWith("--"));
+  const fromArgs = positional[0]?.trim();
+  const fromEnv = process.env.HISTORY_DIR?.trim();
+  // `npm run -w` запускает скрипт из apps/worker; INIT_CWD — каталог, где вызвали npm.
+  const baseDir = process.env.INIT_CWD ?? process.cwd();
+  return {
+    historyRoot: path.resolve(baseDir, fromArgs || fromEnv || "history"),
+    strict: flags.has("--strict"),
+    json: flags.has("--json"),
+  };
+}
+
+function formatReport(report: HistoryValidationReport, historyRoot: string): string {
+  const lines = [
+    `History validation: ${historyRoot}`,
+    `files: ${report.filesLoaded}/${report.filesScanned} loaded, ${report.filesSkipped} skipped`,
+    `posts: ${report.postsAccepted} accepted, ${report.postsSkipped} skipped, ${report.postsDeduplicated} deduplicated`,
+    `issues: ${report.errors} errors, ${report.warnings} warnings`,
+  ];
+  for (const issue of report.issues) {
+    const file = path.relative(historyRoot, issue.file) || issue.file;
+    const post = issue.postId ? ` post=${issue.postId}` : "";
+    lines.push(`  [${issue.severity}] ${issue.code} ${file}${post}: ${issue.message}`);
+  }
+  return lines.join("\n");
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const { report } = await reindexHistory(args.historyRoot);
+
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatReport(report, args.historyRoot));
+
+  const failed = report.errors > 0 || (args.strict && report.warnings > 0);
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(2);
+});
@@ -1,19 +1,74 @@
+import type { LlmProviderKind } from "./llmProvider";
+import { isPromptLanguage, type PromptLanguage } from "./prompts";
+import { DEFAULT_RETRIEVAL_WEIGHTS, type RetrievalWeights } from "./retriever";
+import type { ThemeLabeler } from "./themes";
+import { DEFAULT_TOPIC_DEDUP_THRESHOLD } from "./topicDedup";
+import { parsePriceTable, type PriceTable } from "./usage";
+
 export interface AppConfig {
   nodeEnv: string;
   openaiApiKey: string;
+  llmProvider: LlmProviderKind;
+  llmBaseUrl: string;
+  llmStructuredOutput: boolean;
+  llmTimeoutMs: number;
+  llmMaxRetries: number;
+  llmPrices: PriceTable;
+  /** USD per UTC day; 0 disables the limit. */
+  llmDailyBudgetUsd: number;
+  promptLanguage: PromptLanguage;
+  /** Empty: templates bundled with `@sail-away/core`. */
+  promptsDir: string;
+  /** Empty: the language default from `variables.json`. */
+  promptAudience: string;
   openaiModel: string;
   openaiEmbeddingModel: string;
   ragTopK: number;
+  ragOwnWeight: number;
+  ragSimilarWeight: number;
+  retrievalWeights: RetrievalWeights;
+  ragMmrLambda: number;
+  topicDedupThreshold: number;
+  topicDedupOwnPosts: number;
+  /** 0: picked from the number of posts. */
+  themeCount: number;
+  themeLabels: ThemeLabeler;
   apiPort: number;
+  embeddingCacheDir: string;
 }
 
 export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
   return {
     nodeEnv: env.NODE_ENV ?? "development",
     openaiApiKey: env.OPENAI_API_KEY ?? "",
+    llmProvider: env.LLM_PROVIDER === "openai-compatible" ? "openai-compatible" : "openai",
+    llmBaseUrl: env.LLM_BASE_URL ?? "",
+    llmStructuredOutput: env.LLM_STRUCTURED_OUTPUT === "true",
+    llmTimeoutMs: Number(env.LLM_TIMEOUT_MS ?? 60000),
+    llmMaxRetries: Number(env.LLM_MAX_RETRIES ?? 3),
+    llmPrices: parsePriceTable(env.LLM_PRICES),
+    llmDailyBudgetUsd: Number(env.LLM_DAILY_BUDGET_USD ?? 0),
+    promptLanguage: isPromptLanguage(env.PROMPT_LANGUAGE) ? env.PROMPT_LANGUAGE : "ru",
+    promptsDir: env.PROMPTS_DIR ?? "",
+    promptAudience: env.PROMPT_AUDIENCE ?? "",
     openaiModel: env.OPENAI_MODEL ?? "gpt-5-mini",
     openaiEmbeddingModel: env.OPENAI_EMBEDDING_MODEL ?? "text-embedding-3-small",
     ragTopK: Number(env.RAG_TOP_K ?? 3),
+    ragOwnWeight: Number(env.RAG_OWN_WEIGHT ?? 1),
+    ragSimilarWeight: Number(env.RAG_SIMILAR_WEIGHT ?? 1),
+    retrievalWeights: {
+      embedding: Number(env.RAG_EMBEDDING_WEIGHT ?? DEFAULT_RETRIEVAL_WEIGHTS.embedding),
+      lexical: Number(env.RAG_LEXICAL_WEIGHT ?? DEFAULT_RETRIEVAL_WEIGHTS.lexical),
+      mustHave: Number(env.RAG_MUST_HAVE_WEIGHT ?? DEFAULT_RETRIEVAL_WEIGHTS.mustHave),
+      exclude: Number(env.RAG_EXCLUDE_WEIGHT ?? DEFAULT_RETRIEVAL_WEIGHTS.exclude),
+      cited: Number(env.RAG_CITED_WEIGHT ?? DEFAULT_RETRIEVAL_WEIGHTS.cited),
+    },
+    ragMmrLambda: Number(env.RAG_MMR_LAMBDA ?? 0.7),
+    topicDedupThreshold: Number(env.TOPIC_DEDUP_THRESHOLD ?? DEFAULT_TOPIC_DEDUP_THRESHOLD),
+    topicDedupOwnPosts: Number(env.TOPIC_DEDUP_OWN_POSTS ?? 30),
+    themeCount: Number(env.THEME_COUNT ?? 0),
+    themeLabels: env.THEME_LABELS === "llm" ? "llm" : "terms",
     apiPort: Number(env.API_PORT ?? 3000),
+    embeddingCacheDir: env.EMBEDDING_CACHE_DIR ?? "data/embeddings",
   };
 }
@@ -0,0 +1,191 @@
+import type { IndexedPost } from "./history";
+
+const SHINGLE_SIZE = 3;
+// Короткие посты ("Фото дня") почти всегда совпадают случайно — их не кластеризуем.
+const MIN_SHINGLES = 5;
+const MINHASH_SIZE = 64;
+const LSH_BANDS = 16;
+const LSH_ROWS = MINHASH_SIZE / LSH_BANDS;
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+export function postKey(post: Pick<IndexedPost, "channel" | "id">): string {
+  return `${post.channel}:${post.id}`;
+}
+
+/** Posts without a near-duplicate form a cluster of their own. */
+export function duplicateClusterKey(post: IndexedPost): string {
+  return post.duplicateClusterId ?? postKey(post);
+}
+
+/** Exact dedup by (channel, id); a later copy replaces an earlier one, like reindexing does. */
+export function dedupePostsByKey(posts: IndexedPost[]): IndexedPost[] {
+  const byKey = new Map<string, IndexedPost>();
+  for (const post of posts) {
+    byKey.set(postKey(post), post);
+  }
+  return Array.from(byKey.values());
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function fmix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, index) => fmix32(index + 1));
+
+function shingles(text: string): Set<number> {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  const result = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i += 1) {
+    result.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+  return result;
+}
+
+function minhashSignature(hashes: Set<number>): Uint32Array {
+  const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  for (const hash of hashes) {
+    for (let i = 0; i < MINHASH_SIZE; i += 1) {
+      const value = fmix32(hash ^ MINHASH_SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < MINHASH_SIZE; i += 1) {
+    if (a[i] === b[i]) same += 1;
+  }
+  return same / MINHASH_SIZE;
+}
+
+function publishedAtMs(post: IndexedPost): number {
+  const ts = Date.parse(post.published_at);
+  return Number.isNaN(ts) ? Number.POSITIVE_INFINITY : ts;
+}
+
+/**
+ * Groups near-duplicate texts (reposts, re-exports under another id) with
+ * word-shingle MinHash and LSH banding. Members of a cluster with two or more
+ * posts get `duplicateClusterId` = key of the earliest post in it; other posts
+ * are returned unchanged.
+ */
+export function assignDuplicateClusters(
+  posts: IndexedPost[],
+  threshold = NEAR_DUPLICATE_THRESHOLD,
+): IndexedPost[] {
+  const signatures = posts.map((post) => {
+    const hashes = shingles(post.text);
+    return hashes.size >= MIN_SHINGLES ? minhashSignature(hashes) : null;
+  });
+
+  const parent = posts.map((_, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while (parent[root] !== root) root = parent[root];
+    while (parent[index] !== root) {
+      const next = parent[index];
+      parent[index] = root;
+      index = next;
+    }
+    return root;
+  };
+
+  const buckets = new Map<string, number[]>();
+  signatures.forEach((signature, index) => {
+    if (!signature) return;
+    for (let band = 0; band < LSH_BANDS; band += 1) {
+      const rows = signature.subarray(band * LSH_ROWS, (band + 1) * LSH_ROWS);
+      const key = `${band}:${rows.join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    }
+  });
+
+  for (const bucket of buckets.values()) {
+    for (let i = 1; i < bucket.length; i += 1) {
+      const a = bucket[0];
+      const b = bucket[i];
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA === rootB) continue;
+      const sigA = signatures[a];
+      const sigB = signatures[b];
+      if (sigA && sigB && estimateJaccard(sigA, sigB) >= threshold) {
+        parent[rootB] = rootA;
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  posts.forEach((_, index) => {
+    const root = find(index);
+    const group = members.get(root);
+    if (group) {
+      group.push(index);
+    } else {
+      members.set(root, [index]);
+    }
+  });
+
+  const clusterIds = new Map<number, string>();
+  for (const group of members.values()) {
+    if (group.length < 2) continue;
+    const earliest = group.reduce((best, index) =>
+      publishedAtMs(posts[index]) < publishedAtMs(posts[best]) ? index : best,
+    );
+    const clusterId = postKey(posts[earliest]);
+    for (const index of group) clusterIds.set(index, clusterId);
+  }
+
+  return posts.map((post, index) => {
+    const clusterId = clusterIds.get(index);
+    if (clusterId) return { ...post, duplicateClusterId: clusterId };
+    if (post.duplicateClusterId === undefined) return post;
+    const { duplicateClusterId: _stale, ...rest } = post;
+    return rest;
+  });
+}
+
+/** Keeps the first entry of every duplicate cluster, preserving order, up to `limit`. */
+export function takeOnePerCluster<T>(
+  entries: T[],
+  getPost: (entry: T) => IndexedPost,
+  limit = Number.POSITIVE_INFINITY,
+): T[] {
+  const seen = new Set<string>();
+  const result: T[] = [];
+  for (const entry of entries) {
+    if (result.length >= limit) break;
+    const key = duplicateClusterKey(getPost(entry));
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(entry);
+  }
+  return result;
+}
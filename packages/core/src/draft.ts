@@ -1,20 +1,57 @@
-import OpenAI from "openai";
 import path from "node:path";
+import { postKey } from "./dedup";
+import {
+  createMemoryEmbeddingStore,
+  embedWithStore,
+  type EmbeddingStore,
+} from "./embeddingStore";
 import type { IndexedPost } from "./history";
+import { withRetries } from "./llmCall";
+import { logLlmInfo } from "./llmLog";
+import type { LlmProvider } from "./llmProvider";
+import { loadPromptSet, renderPrompt, type PromptSet } from "./prompts";
+import { createOpenAiProvider } from "./providers/openai";
+import {
+  createRetriever,
+  DEFAULT_RETRIEVAL_WEIGHTS,
+  type ExplainedPost,
+  type RetrievalFilters,
+  type RetrievalQuery,
+  type RetrievalWeights,
+  type RetrieverOptions,
+  type ScoredPost,
+} from "./retriever";
+import { generateStructured, type JsonSchema } from "./structuredOutput";
+import { withUsageTracking, type UsageListener } from "./usage";
 
 const MAX_DRAFT_RETRIEVAL_POSTS = 1200;
 const EMBEDDING_BATCH_SIZE = 128;
-const REFERENCE_EMBED_BATCH_SIZE = 64;
+const POST_EMBED_TEXT_MAX = 900;
 const REFERENCE_EMBED_TEXT_MAX = 320;
 const REFERENCE_MIN_SCORE = 0.45;
-const REFERENCE_MIN_LEXICAL = 0.12;
-const LLM_LOG_MAX_CHARS = 1200;
+// Нормированный BM25 (см. createBm25Index): одно ключевое слово из ~8, встреченное один раз
+// в посте до трех средних длин, дает 0.07-0.12. Порог пропускает такие посты и режет посты без совпадений.
+const REFERENCE_MIN_LEXICAL = 0.06;
 
 export interface DraftOptions {
-  apiKey: string;
+  /** Used for the default OpenAI provider when `provider` is not set. */
+  apiKey?: string;
+  provider?: LlmProvider;
   model: string;
   embeddingModel: string;
   topK: number;
+  embeddingStore?: EmbeddingStore;
+  retrievalWeights?: Partial<RetrievalWeights>;
+  /** Restricts both the evidence posts and the references. */
+  retrievalFilters?: RetrievalFilters;
+  /** Sampling seed passed to the draft generation call. */
+  seed?: number;
+  /** Cancels pending LLM calls, e.g. when the HTTP client disconnects. */
+  signal?: AbortSignal;
+  /** Receives token usage of every LLM call made by this run. */
+  onUsage?: UsageListener;
+  /** Templates and variables; the bundled Russian set when omitted. */
+  prompts?: PromptSet;
 }
 
 export interface DraftResult {
@@ -24,6 +61,8 @@ export interface DraftResult {
   sourcePostIds: string[];
   references: DraftReference[];
   mode: "rag";
+  /** Template id the draft was generated with, e.g. `ru/draft@1`. */
+  promptVersion: string;
 }
 
 export interface DraftReference {
@@ -31,43 +70,46 @@ export interface DraftReference {
   channel: string;
   snippet: string;
   url?: string;
+  /** `cited`: the model listed the post in `sourcePostIds`; `similar`: found by similarity only. */
+  origin: "cited" | "similar";
 }
 
 interface DraftModelResponse {
-  text?: string;
-  imageOptions?: string[];
-  sourcePostIds?: string[];
-  topicKeywords?: string[];
-  mustHaveKeywords?: string[];
-  mustHaveSynonyms?: string[];
-  excludeKeywords?: string[];
+  text: string;
+  imageOptions?: string[] | null;
+  sourcePostIds?: string[] | null;
+  topicKeywords?: string[] | null;
+  mustHaveKeywords?: string[] | null;
+  mustHaveSynonyms?: string[] | null;
+  excludeKeywords?: string[] | null;
 }
 
-interface DraftKeywordHints {
+const STRING_LIST_SCHEMA: JsonSchema = { type: "array", items: { type: "string" } };
+
+const DRAFT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    text: { type: "string", minLength: 1 },
+    imageOptions: STRING_LIST_SCHEMA,
+    sourcePostIds: STRING_LIST_SCHEMA,
+    topicKeywords: STRING_LIST_SCHEMA,
+    mustHaveKeywords: STRING_LIST_SCHEMA,
+    mustHaveSynonyms: STRING_LIST_SCHEMA,
+    excludeKeywords: STRING_LIST_SCHEMA,
+  },
+  required: ["text"],
+};
+
+export interface DraftKeywordHints {
   topicKeywords: string[];
   mustHaveKeywords: string[];
   mustHaveSynonyms: string[];
   excludeKeywords: string[];
 }
 
-function clip(text: string, max = LLM_LOG_MAX_CHARS): string {
-  return text.length <= max ? text : `${text.slice(0, max)}...`;
-}
-
-function logLlmInfo(event: string, payload: Record<string, unknown>): void {
-  try {
-    console.info(`[llm:${event}]`, JSON.stringify(payload));
-  } catch {
-    console.info(`[llm:${event}]`, payload);
-  }
-}
-
-function logLlmRawResponse(event: string, response: unknown): void {
-  try {
-    console.info(`[llm:${event}.raw]`, JSON.stringify(response));
-  } catch {
-    console.info(`[llm:${event}.raw]`, response);
-  }
+export interface ReferenceHints extends DraftKeywordHints {
+  /** `postKey` (channel:id) of the posts the model cited; matching references get the `cited` weight and origin. */
+  citedPostKeys: string[];
 }
 
 function normalize(text: string): string {
@@ -79,26 +121,11 @@ function truncate(text: string, max = 420): string {
   return clean.length <= max ? clean : `${clean.slice(0, max)}...`;
 }
 
-function dot(a: number[], b: number[]): number {
-  let sum = 0;
-  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
-  return sum;
-}
-
-function norm(a: number[]): number {
-  return Math.sqrt(dot(a, a));
-}
-
-function cosineSimilarity(a: number[], b: number[]): number {
-  const denom = norm(a) * norm(b);
-  if (denom === 0) return 0;
-  return dot(a, b) / denom;
-}
-
 async function embedTexts(
-  client: OpenAI,
+  provider: LlmProvider,
   model: string,
   inputs: string[],
+  signal?: AbortSignal,
   batchSize = EMBEDDING_BATCH_SIZE,
 ): Promise<number[][]> {
   if (inputs.length === 0) {
@@ -108,61 +135,62 @@ async function embedTexts(
   const embeddings: number[][] = [];
   for (let i = 0; i < inputs.length; i += batchSize) {
     const chunk = inputs.slice(i, i + batchSize);
-    const res = await client.embeddings.create({ model, input: chunk });
-    embeddings.push(...res.data.map((item) => item.embedding));
+    embeddings.push(...(await provider.embed(model, chunk, signal)).embeddings);
   }
   return embeddings;
 }
 
-function retrieveForTopic(
-  topicEmbedding: number[],
-  posts: IndexedPost[],
-  postEmbeddings: number[][],
-  topK: number,
-): IndexedPost[] {
-  return posts
-    .map((post, idx) => ({
-      post,
-      score: cosineSimilarity(topicEmbedding, postEmbeddings[idx] ?? []),
-    }))
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topK)
-    .map((entry) => entry.post);
+export interface ReferenceExplanation extends DraftReference, Omit<ExplainedPost, "post"> {}
+
+export interface ReferenceExplanationResult {
+  topic: string;
+  thresholds: { minScore: number; minLexical: number };
+  weights: RetrievalWeights;
+  /** Similar-channel posts by score, accepted ones with a `rank`. */
+  candidates: ReferenceExplanation[];
 }
 
-function tokenize(text: string): string[] {
-  return normalize(text)
-    .toLowerCase()
-    .replace(/[^\p{L}\p{N}\s]/gu, " ")
-    .split(/\s+/)
-    .filter((token) => token.length >= 3);
+export interface ExplainReferencesOptions
+  extends Pick<
+    DraftOptions,
+    | "apiKey"
+    | "provider"
+    | "embeddingModel"
+    | "embeddingStore"
+    | "retrievalWeights"
+    | "retrievalFilters"
+    | "signal"
+    | "onUsage"
+  > {
+  hints?: Partial<ReferenceHints>;
 }
 
-function buildTokenSet(text: string): Set<string> {
-  return new Set(tokenize(text));
+function referenceQuery(
+  topic: string,
+  topicEmbedding: number[],
+  hints: Partial<ReferenceHints> | undefined,
+): RetrievalQuery {
+  return {
+    text: topic,
+    embedding: topicEmbedding,
+    keywords: hints?.topicKeywords,
+    mustHave: [...(hints?.mustHaveKeywords ?? []), ...(hints?.mustHaveSynonyms ?? [])],
+    exclude: hints?.excludeKeywords,
+    citedPostKeys: hints?.citedPostKeys,
+    filters: { kinds: ["similar"] },
+    minScore: REFERENCE_MIN_SCORE,
+    minLexical: REFERENCE_MIN_LEXICAL,
+  };
 }
 
-function lexicalOverlapScore(topicTokens: string[], textTokens: Set<string>): number {
-  if (topicTokens.length === 0) return 0;
-  let hits = 0;
-  for (const token of topicTokens) {
-    if (textTokens.has(token)) {
-      hits += 1;
-      continue;
-    }
-
-    // Мягкий матч по префиксу для русских словоформ.
-    if (token.length >= 6) {
-      const prefix = token.slice(0, 5);
-      for (const tt of textTokens) {
-        if (tt.startsWith(prefix)) {
-          hits += 0.6;
-          break;
-        }
-      }
-    }
-  }
-  return hits / topicTokens.length;
+function toReference({ post, components }: ScoredPost): DraftReference {
+  return {
+    id: post.id,
+    channel: post.channel,
+    snippet: truncate(post.text, 140),
+    url: tryBuildTelegramUrl(post),
+    origin: components.cited > 0 ? "cited" : "similar",
+  };
 }
 
 export function buildReferencesForTopic(
@@ -170,81 +198,43 @@ export function buildReferencesForTopic(
   topicEmbedding: number[],
   posts: IndexedPost[],
   postEmbeddings: number[][],
-  hints?: Partial<DraftKeywordHints>,
+  hints?: Partial<ReferenceHints>,
+  retrieval: RetrieverOptions = {},
 ): DraftReference[] {
-  const topicTokens = tokenize(topic);
-  const hintTopicTokens =
-    (hints?.topicKeywords ?? []).flatMap((item) => tokenize(item)).slice(0, 20);
-  const mustTokens = [
-    ...(hints?.mustHaveKeywords ?? []),
-    ...(hints?.mustHaveSynonyms ?? []),
-  ]
-    .flatMap((item) => tokenize(item))
-    .slice(0, 30);
-  const excludeTokens =
-    (hints?.excludeKeywords ?? []).flatMap((item) => tokenize(item)).slice(0, 20);
-  const lexicalTopic = hintTopicTokens.length > 0 ? hintTopicTokens : topicTokens;
-
-  const ranked = posts
-    .map((post, idx) => {
-      const emb = cosineSimilarity(topicEmbedding, postEmbeddings[idx] ?? []);
-      const textTokens = buildTokenSet(post.text);
-      const lex = lexicalOverlapScore(lexicalTopic, textTokens);
-      const mustMatch =
-        mustTokens.length === 0 ? 1 : lexicalOverlapScore(mustTokens, textTokens);
-      const excludeMatch =
-        excludeTokens.length === 0 ? 0 : lexicalOverlapScore(excludeTokens, textTokens);
-      // Гибрид: больше веса семантике (embedding).
-      const score =
-        emb * 0.65 + lex * 0.25 + mustMatch * 0.15 - excludeMatch * 0.15;
-      return { post, score, mustMatch, lex };
-    })
-    .filter((entry) => isSimilarSource(entry.post))
-    .filter((entry) => entry.score >= REFERENCE_MIN_SCORE)
-    .filter((entry) => entry.lex >= REFERENCE_MIN_LEXICAL || entry.mustMatch > 0)
-    .sort((a, b) => b.score - a.score);
-
-  const result: DraftReference[] = [];
-  const seenIds = new Set<string>();
-
-  for (const entry of ranked) {
-    if (seenIds.has(entry.post.id)) continue;
-
-    seenIds.add(entry.post.id);
-    result.push({
-      id: entry.post.id,
-      channel: entry.post.channel,
-      snippet: truncate(entry.post.text, 140),
-      url: tryBuildTelegramUrl(entry.post),
-    });
-  }
-
-  return result;
+  return createRetriever(posts, postEmbeddings, retrieval)
+    .retrieve(referenceQuery(topic, topicEmbedding, hints))
+    .map(toReference);
 }
 
-function parseDraftResponse(raw: string): DraftModelResponse | null {
-  const start = raw.indexOf("{");
-  const end = raw.lastIndexOf("}");
-  if (start === -1 || end === -1 || end <= start) return null;
-
-  try {
-    return JSON.parse(raw.slice(start, end + 1)) as DraftModelResponse;
-  } catch {
-    return null;
-  }
+/** The reference search of `buildReferencesForTopic` with every candidate and why it was kept or dropped. */
+export function explainReferencesForTopic(
+  topic: string,
+  topicEmbedding: number[],
+  posts: IndexedPost[],
+  postEmbeddings: number[][],
+  hints?: Partial<ReferenceHints>,
+  retrieval: RetrieverOptions = {},
+): ReferenceExplanationResult {
+  const candidates = createRetriever(posts, postEmbeddings, retrieval)
+    .explain(referenceQuery(topic, topicEmbedding, hints))
+    .map(({ post, ...explained }) => ({ ...toReference({ post, ...explained }), ...explained }));
+  return {
+    topic,
+    thresholds: { minScore: REFERENCE_MIN_SCORE, minLexical: REFERENCE_MIN_LEXICAL },
+    weights: { ...DEFAULT_RETRIEVAL_WEIGHTS, ...retrieval.weights },
+    candidates,
+  };
 }
 
-function sanitizeStringArray(value: unknown, maxItems: number): string[] {
-  if (!Array.isArray(value)) return [];
-  return value
-    .filter((item): item is string => typeof item === "string")
+function sanitizeStringArray(value: string[] | null | undefined, maxItems: number): string[] {
+  return (value ?? [])
     .map((item) => normalize(item))
     .filter((item) => item.length > 0)
     .slice(0, maxItems);
 }
 
 function isSimilarSource(post: IndexedPost): boolean {
-  return /[\\/]history[\\/]similar[\\/]/i.test(post.sourceFile);
+  return post.kind === "similar";
 }
 
 function tryBuildTelegramUrl(post: IndexedPost): string | undefined {
@@ -264,45 +254,76 @@ function tryBuildTelegramUrl(post: IndexedPost): string | undefined {
   return `https://t.me/s/${slug}/${post.id}`;
 }
 
+function createPostEmbedder(
+  provider: LlmProvider,
+  options: Pick<DraftOptions, "embeddingModel" | "embeddingStore" | "signal">,
+): (items: IndexedPost[], maxChars: number) => Promise<number[][]> {
+  // Кэш ключуется текстом, поэтому пост, обрезанный до той же длины, запрашивается у модели один раз.
+  const store = options.embeddingStore ?? createMemoryEmbeddingStore(options.embeddingModel);
+  return (items, maxChars) =>
+    embedWithStore(
+      store,
+      items.map((post) => truncate(post.text, maxChars)),
+      (texts) => embedTexts(provider, options.embeddingModel, texts, options.signal),
+    );
+}
+
+function resolveProvider(options: Pick<DraftOptions, "apiKey" | "provider" | "onUsage">): LlmProvider {
+  const baseProvider = options.provider ?? withRetries(createOpenAiProvider({ apiKey: options.apiKey ?? "" }));
+  return options.onUsage ? withUsageTracking(baseProvider, options.onUsage) : baseProvider;
+}
+
+/** Embeds the topic and the similar-channel posts and explains the reference search for `hints`. */
+export async function explainDraftReferences(
+  posts: IndexedPost[],
+  topic: string,
+  options: ExplainReferencesOptions,
+): Promise<ReferenceExplanationResult> {
+  if (!options.provider && !options.apiKey) {
+    throw new Error("missing_api_key");
+  }
+
+  const provider = resolveProvider(options);
+  const similarPosts = posts.filter((post) => isSimilarSource(post));
+  const [topicEmbeddingSet, similarEmbeddings] = await Promise.all([
+    embedTexts(provider, options.embeddingModel, [topic], options.signal),
+    createPostEmbedder(provider, options)(similarPosts, REFERENCE_EMBED_TEXT_MAX),
+  ]);
+  return explainReferencesForTopic(topic, topicEmbeddingSet[0] ?? [], similarPosts, similarEmbeddings, options.hints, {
+    weights: options.retrievalWeights,
+    filters: options.retrievalFilters,
+  });
+}
+
 export async function buildDraftPostRag(
   posts: IndexedPost[],
   topic: string,
   options: DraftOptions,
 ): Promise<DraftResult> {
-  if (!options.apiKey) {
+  if (!options.provider && !options.apiKey) {
     throw new Error("missing_api_key");
   }
   if (posts.length === 0) {
     throw new Error("empty_posts");
   }
 
-  const client = new OpenAI({ apiKey: options.apiKey });
+  const provider = resolveProvider(options);
   const candidatePosts = posts.slice(0, MAX_DRAFT_RETRIEVAL_POSTS);
-  const postTexts = candidatePosts.map((post) => truncate(post.text, 900));
   const similarPostsAll = posts.filter((post) => isSimilarSource(post));
-  const similarPostTextsAll = similarPostsAll.map((post) =>
-    truncate(post.text, REFERENCE_EMBED_TEXT_MAX),
-  );
+  const embedPosts = createPostEmbedder(provider, options);
 
-  const [topicEmbeddingSet, postEmbeddings, similarPostEmbeddingsAll] =
-    await Promise.all([
-    embedTexts(client, options.embeddingModel, [topic]),
-    embedTexts(client, options.embeddingModel, postTexts),
-    embedTexts(
-      client,
-      options.embeddingModel,
-      similarPostTextsAll,
-      REFERENCE_EMBED_BATCH_SIZE,
-    ),
+  const [topicEmbeddingSet, postEmbeddings] = await Promise.all([
+    embedTexts(provider, options.embeddingModel, [topic], options.signal),
+    embedPosts(candidatePosts, POST_EMBED_TEXT_MAX),
   ]);
+  const similarPostEmbeddingsAll = await embedPosts(similarPostsAll, REFERENCE_EMBED_TEXT_MAX);
 
   const topicEmbedding = topicEmbeddingSet[0] ?? [];
-  const retrieved = retrieveForTopic(
-    topicEmbedding,
-    candidatePosts,
-    postEmbeddings,
-    options.topK,
-  );
+  const retrieval: RetrieverOptions = { weights: options.retrievalWeights, filters: options.retrievalFilters };
+  const retrieved = createRetriever(candidatePosts, postEmbeddings, retrieval)
+    .retrieve({ text: topic, embedding: topicEmbedding, topK: options.topK })
+    .map((entry) => entry.post);
+  const prompts = options.prompts ?? (await loadPromptSet());
   const evidence = retrieved
     .map(
       (post) =>
@@ -310,28 +331,7 @@ export async function buildDraftPostRag(
     )
     .join("\n");
 
-  const prompt = [
-    "Сгенерируй пост для Telegram-канала про яхтинг.",
-    `Тема: ${topic}`,
-    "Используй только контекст ниже.",
-    "Цель: текст должен быть понятен новичкам и людям без яхтенного опыта.",
-    "Допускаются общетуристические акценты: подготовка, комфорт, бюджет, безопасность, что взять с собой.",
-    "Избегай узкого профессионального жаргона. Если термин нужен, объясни его простыми словами.",
-    "Избегай историй, завязанных на конкретных людях и их личных кейсах.",
-    "Верни строго JSON-объект формата:",
-    '{"text":"...","imageOptions":["...","...","..."],"sourcePostIds":["..."],"topicKeywords":["..."],"mustHaveKeywords":["..."],"mustHaveSynonyms":["..."],"excludeKeywords":["..."]}',
-    "Требования:",
-    "- text: 700-1200 символов, живой стиль, без markdown.",
-    "- imageOptions: 3 короткие идеи для изображений.",
-    "- sourcePostIds: только id из контекста.",
-    "- topicKeywords: 5-10 ключевых слов/фраз для подбора похожих постов.",
-    "- mustHaveKeywords: 0-5 обязательных слов/фраз для референсов.",
-    "- mustHaveSynonyms: 0-20 синонимов/перефразировок к mustHaveKeywords.",
-    "- excludeKeywords: 0-5 слов/фраз, которые нерелевантны теме.",
-    "",
-    "Контекст:",
-    evidence,
-  ].join("\n");
+  const prompt = renderPrompt(prompts.templates.draft, { ...prompts.variables, topic, evidence });
 
   logLlmInfo("draft.request", {
     model: options.model,
@@ -342,43 +342,28 @@ export async function buildDraftPostRag(
     topicChars: topic.length,
   });
 
-  const response = await client.responses.create({
+  const parsed = await generateStructured(provider, {
+    purpose: "draft",
     model: options.model,
-    input: prompt,
-    max_output_tokens: 1200,
-    reasoning: { effort: "minimal" },
+    prompt,
+    maxOutputTokens: 1200,
+    schemaName: "draft_post",
+    schema: DRAFT_SCHEMA,
+    finalize: (value) => ({ value: value as DraftModelResponse }),
+    errorCode: "invalid_draft_response",
+    repairTemplate: prompts.templates.repair,
+    seed: options.seed,
+    signal: options.signal,
   });
-  logLlmRawResponse("draft.response", response);
-
-  const outputText = response.output_text ?? "";
-  logLlmInfo("draft.response", {
-    model: options.model,
-    outputChars: outputText.length,
-    outputPreview: clip(outputText),
-  });
-
-  const parsed = parseDraftResponse(outputText);
-  if (!parsed?.text) {
-    logLlmInfo("draft.parse_error", {
-      reason: "invalid_draft_response",
-      outputPreview: clip(outputText),
-    });
-    throw new Error("invalid_draft_response");
-  }
 
-  const imageOptions =
-    Array.isArray(parsed.imageOptions) && parsed.imageOptions.length > 0
-      ? parsed.imageOptions
-          .filter((item): item is string => typeof item === "string")
-          .slice(0, 5)
-      : [];
+  const imageOptions = (parsed.imageOptions ?? []).slice(0, 5);
 
   const sourceIdsFromContext = new Set(retrieved.map((p) => p.id));
-  const sourcePostIdsRaw = sanitizeStringArray(parsed.sourcePostIds, 20);
-  const sourcePostIds =
-    sourcePostIdsRaw.length > 0
-      ? sourcePostIdsRaw.filter((id) => sourceIdsFromContext.has(id))
-      : retrieved.map((p) => p.id);
+  // Процитированными считаются только id, которые модель вернула сама и которые были в контексте.
+  const citedPostIds = sanitizeStringArray(parsed.sourcePostIds, 20).filter((id) => sourceIdsFromContext.has(id));
+  // Модель возвращает id без канала, а id повторяются между каналами: цитатой считается пост из контекста.
+  const citedIds = new Set(citedPostIds);
+  const citedPostKeys = retrieved.filter((post) => citedIds.has(post.id)).map(postKey);
 
   const keywordHints: DraftKeywordHints = {
     topicKeywords: sanitizeStringArray(parsed.topicKeywords, 10),
@@ -392,7 +377,8 @@ export async function buildDraftPostRag(
     topicEmbedding,
     similarPostsAll,
     similarPostEmbeddingsAll,
-    keywordHints,
+    { ...keywordHints, citedPostKeys },
+    retrieval,
   );
 
   return {
@@ -401,7 +387,7 @@ export async function buildDraftPostRag(
     text: parsed.text.trim(),
     imageOptions,
     references,
-    sourcePostIds:
-      sourcePostIds.length > 0 ? sourcePostIds : retrieved.map((p) => p.id),
+    sourcePostIds: citedPostIds.length > 0 ? citedPostIds : retrieved.map((p) => p.id),
+    promptVersion: prompts.templates.draft.id,
   };
 }
@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const STORE_FORMAT_VERSION = 1;
+
+interface StoredEmbeddingFile {
+  version: number;
+  model: string;
+  entries: Record<string, string>;
+}
+
+export interface EmbeddingStore {
+  readonly model: string;
+  get(text: string): number[] | undefined;
+  set(text: string, embedding: number[]): void;
+  size(): number;
+  flush(): Promise<void>;
+}
+
+function normalizeEmbeddingText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function embeddingTextHash(text: string): string {
+  return createHash("sha256").update(normalizeEmbeddingText(text)).digest("hex");
+}
+
+const STORE_FILE_PREFIX = "embeddings-";
+
+function modelFileName(model: string): string {
+  const slug = model.toLowerCase().replace(/[^a-z0-9._-]/g, "_");
+  return `${STORE_FILE_PREFIX}${slug}.json`;
+}
+
+export function encodeEmbedding(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString("base64");
+}
+
+export function decodeEmbedding(encoded: string): number[] {
+  const buffer = Buffer.from(encoded, "base64");
+  const floats = new Float32Array(buffer.buffer, buffer.byteOffset, Math.floor(buffer.byteLength / 4));
+  return Array.from(floats);
+}
+
+async function readStoreFile(filePath: string, model: string): Promise<Map<string, number[]>> {
+  const entries = new Map<string, number[]>();
+  try {
+    const raw = await readFile(filePath, "utf-8");
+    const parsed = JSON.parse(raw) as Partial<StoredEmbeddingFile>;
+    if (parsed.version !== STORE_FORMAT_VERSION || parsed.model !== model || !parsed.entries) {
+      return entries;
+    }
+    for (const [hash, encoded] of Object.entries(parsed.entries)) {
+      if (typeof encoded === "string") entries.set(hash, decodeEmbedding(encoded));
+    }
+  } catch {
+    // Missing or corrupted store file: start with an empty cache.
+  }
+  return entries;
+}
+
+// Entries from other models are useless after OPENAI_EMBEDDING_MODEL changes
+// (vectors from different models are not comparable), so they are dropped.
+// Only the store's own files are touched: the directory may be shared, e.g. data/.
+async function removeStaleModelFiles(dir: string, activeFile: string): Promise<void> {
+  const names = await readdir(dir).catch(() => [] as string[]);
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(STORE_FILE_PREFIX) && name.endsWith(".json") && name !== activeFile)
+      .map((name) => unlink(path.join(dir, name)).catch(() => undefined)),
+  );
+}
+
+export async function openEmbeddingStore(dir: string, model: string): Promise<EmbeddingStore> {
+  await mkdir(dir, { recursive: true });
+  const fileName = modelFileName(model);
+  const filePath = path.join(dir, fileName);
+  await removeStaleModelFiles(dir, fileName);
+
+  const entries = await readStoreFile(filePath, model);
+  let dirty = false;
+  let flushSeq = 0;
+  // Записи идут строго по очереди: параллельные flush() иначе переименовывают один и тот же файл.
+  let pending: Promise<void> = Promise.resolve();
+
+  const writeSnapshot = async () => {
+    if (!dirty) return;
+    // Сбрасываем флаг до записи: set() во время записи снова пометит хранилище.
+    dirty = false;
+    const payload: StoredEmbeddingFile = {
+      version: STORE_FORMAT_VERSION,
+      model,
+      entries: Object.fromEntries(
+        Array.from(entries.entries()).map(([hash, embedding]) => [hash, encodeEmbedding(embedding)]),
+      ),
+    };
+    const tmpPath = `${filePath}.${process.pid}.${++flushSeq}.tmp`;
+    try {
+      await writeFile(tmpPath, JSON.stringify(payload), "utf-8");
+      await rename(tmpPath, filePath);
+    } catch (error) {
+      dirty = true;
+      await unlink(tmpPath).catch(() => undefined);
+      throw error;
+    }
+  };
+
+  return {
+    model,
+    get(text) {
+      return entries.get(embeddingTextHash(text));
+    },
+    set(text, embedding) {
+      entries.set(embeddingTextHash(text), embedding);
+      dirty = true;
+    },
+    size() {
+      return entries.size;
+    },
+    flush() {
+      const run = pending.then(writeSnapshot);
+      pending = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
+
+export function createMemoryEmbeddingStore(model: string): EmbeddingStore {
+  const entries = new Map<string, number[]>();
+  return {
+    model,
+    get: (text) => entries.get(embeddingTextHash(text)),
+    set: (text, embedding) => {
+      entries.set(embeddingTextHash(text), embedding);
+    },
+    size: () => entries.size,
+    flush: async () => undefined,
+  };
+}
+
+/**
+ * Resolves embeddings through the store and calls `embedMisses` only for texts
+ * that are not cached yet (each distinct text is embedded once per call).
+ */
+export async function embedWithStore(
+  store: EmbeddingStore | undefined,
+  inputs: string[],
+  embedMisses: (texts: string[]) => Promise<number[][]>,
+): Promise<number[][]> {
+  if (!store) {
+    return embedMisses(inputs);
+  }
+
+  const results: Array<number[] | undefined> = inputs.map((text) => store.get(text));
+  const missingTexts = Array.from(
+    new Set(inputs.filter((_, idx) => results[idx] === undefined).map(normalizeEmbeddingText)),
+  );
+
+  if (missingTexts.length > 0) {
+    const embedded = await embedMisses(missingTexts);
+    missingTexts.forEach((text, idx) => {
+      const embedding = embedded[idx];
+      if (embedding) store.set(text, embedding);
+    });
+    await store.flush();
+    inputs.forEach((text, idx) => {
+      if (results[idx] === undefined) results[idx] = store.get(text);
+    });
+  }
+
+  return results.map((embedding) => embedding ?? []);
+}
@@ -0,0 +1,72 @@
+import type { HistoryPost } from "./history";
+
+// Негативные реакции показывают внимание, но не одобрение — считаем их вполсилы.
+const NEGATIVE_REACTIONS = new Set(["👎", "💩", "🤮", "😡", "🤬", "😢", "🥱"]);
+const NEGATIVE_REACTION_WEIGHT = 0.5;
+// Платные реакции (звезды) стоят подписчику денег и весят больше обычных.
+const PAID_REACTION_WEIGHT = 3;
+
+export function getReactionTotal(post: HistoryPost): number {
+  if (Array.isArray(post.reactions) && post.reactions.length > 0) {
+    return post.reactions.reduce((sum, reaction) => sum + Math.max(0, reaction.count), 0);
+  }
+  return Math.max(0, post.metrics?.reactions ?? 0);
+}
+
+export function getViewCount(post: HistoryPost): number | undefined {
+  const views = post.views ?? post.metrics?.views;
+  return typeof views === "number" && views > 0 ? views : undefined;
+}
+
+export function getWeightedReactions(post: HistoryPost): number {
+  if (!Array.isArray(post.reactions) || post.reactions.length === 0) {
+    return getReactionTotal(post);
+  }
+  return post.reactions.reduce((sum, reaction) => {
+    const count = Math.max(0, reaction.count);
+    if (reaction.type === "paid") return sum + count * PAID_REACTION_WEIGHT;
+    if (NEGATIVE_REACTIONS.has(reaction.emoji)) return sum + count * NEGATIVE_REACTION_WEIGHT;
+    return sum + count;
+  }, 0);
+}
+
+/**
+ * Builds a 0..1 engagement scorer normalized over `posts`. Weighted reactions
+ * are always used; when views are known, reach (log views) and reaction rate
+ * per view are blended in, so a small post with an active audience is not
+ * buried under large posts with the same reaction count. A post without views
+ * gets the mean reach and rate of the posts that have them, so mixed sets stay
+ * on one scale instead of scoring unviewed posts by reactions alone.
+ */
+export function createEngagementScorer(posts: HistoryPost[]): (post: HistoryPost) => number {
+  let maxLogReactions = 0;
+  let maxLogViews = 0;
+  let maxRate = 0;
+  const viewed: Array<{ logViews: number; rate: number }> = [];
+  for (const post of posts) {
+    const weighted = getWeightedReactions(post);
+    maxLogReactions = Math.max(maxLogReactions, Math.log1p(weighted));
+    const views = getViewCount(post);
+    if (views !== undefined) {
+      maxLogViews = Math.max(maxLogViews, Math.log1p(views));
+      maxRate = Math.max(maxRate, weighted / views);
+      viewed.push({ logViews: Math.log1p(views), rate: weighted / views });
+    }
+  }
+  // Средние охват и доля реакций среди постов с просмотрами — подстановка для постов без них.
+  const meanReachScore =
+    maxLogViews > 0 ? viewed.reduce((sum, entry) => sum + entry.logViews / maxLogViews, 0) / viewed.length : 0;
+  const meanRateScore = maxRate > 0 ? viewed.reduce((sum, entry) => sum + entry.rate / maxRate, 0) / viewed.length : 0;
+
+  return (post) => {
+    const weighted = getWeightedReactions(post);
+    const reactionScore = maxLogReactions > 0 ? Math.log1p(weighted) / maxLogReactions : 0;
+    if (maxLogViews <= 0) {
+      return reactionScore;
+    }
+    const views = getViewCount(post);
+    const reachScore = views === undefined ? meanReachScore : Math.log1p(views) / maxLogViews;
+    const rateScore = views === undefined ? meanRateScore : maxRate > 0 ? weighted / views / maxRate : 0;
+    return reactionScore * 0.4 + reachScore * 0.3 + rateScore * 0.3;
+  };
+}
@@ -0,0 +1,118 @@
+import { postKey } from "./dedup";
+import { createEngagementScorer } from "./engagement";
+import type { IndexedPost } from "./history";
+import type { ThemeExample, ThemeIndex } from "./themes";
+
+const DEFAULT_GAP_LIMIT = 10;
+const DEFAULT_GAP_EXAMPLES = 3;
+
+function truncate(text: string, max: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length <= max ? clean : `${clean.slice(0, max)}...`;
+}
+
+export interface GapExample extends ThemeExample {
+  /** 0..1 engagement score among similar-channel posts. */
+  engagement: number;
+}
+
+export interface ContentGap {
+  themeId: string;
+  label: string;
+  topTerms: string[];
+  ownPosts: number;
+  similarPosts: number;
+  /** Share of all own-channel posts that fall into the theme, 0..1. */
+  ownShare: number;
+  /** Share of all similar-channel posts that fall into the theme, 0..1. */
+  similarShare: number;
+  /** Mean engagement score of the theme's similar-channel posts among all similar-channel posts, 0..1. */
+  similarEngagement: number;
+  /** Mean engagement score of the theme's own-channel posts among all own-channel posts, 0..1; 0 without own posts. */
+  ownEngagement: number;
+  /**
+   * `similarShare - ownShare`, weighted by `1 + similarEngagement - ownEngagement`:
+   * themes competitors engage with and the own audience does not rank higher.
+   */
+  score: number;
+  /** Most engaging similar-channel posts of the theme. */
+  examples: GapExample[];
+}
+
+export interface ContentGapOptions {
+  /** Default 10. */
+  limit?: number;
+  /** Example competitor posts per gap, default 3. */
+  examples?: number;
+}
+
+/**
+ * Themes similar channels cover more than the own channel, relative to the
+ * size of each side, ranked by that coverage gap times how much more the theme
+ * engages the competitors' audience than the own one.
+ * `posts` is the history index; posts missing from `themes.membership` (added
+ * after clustering) are ignored.
+ */
+export function findContentGaps(
+  posts: IndexedPost[],
+  themes: ThemeIndex,
+  options: ContentGapOptions = {},
+): ContentGap[] {
+  const themeByPost = new Map(themes.membership.map((entry) => [postKey(entry), entry.themeId]));
+  const membersByTheme = new Map<string, IndexedPost[]>();
+  for (const post of posts) {
+    const themeId = themeByPost.get(postKey(post));
+    if (themeId === undefined) continue;
+    const members = membersByTheme.get(themeId) ?? [];
+    members.push(post);
+    membersByTheme.set(themeId, members);
+  }
+
+  const clustered = Array.from(membersByTheme.values()).flat();
+  const ownTotal = clustered.filter((post) => post.kind === "own").length;
+  const similarTotal = clustered.length - ownTotal;
+  if (similarTotal === 0) return [];
+  // Каждая сторона нормируется по своим постам: у конкурентов и у нас разные масштабы реакций.
+  const scoreEngagement = createEngagementScorer(clustered.filter((post) => post.kind === "similar"));
+  const scoreOwnEngagement = createEngagementScorer(clustered.filter((post) => post.kind === "own"));
+
+  const gaps: ContentGap[] = [];
+  for (const theme of themes.themes) {
+    const members = membersByTheme.get(theme.id) ?? [];
+    const similar = members.filter((post) => post.kind === "similar");
+    const own = members.filter((post) => post.kind === "own");
+    const ownPosts = own.length;
+    const ownShare = ownTotal > 0 ? ownPosts / ownTotal : 0;
+    const similarShare = similar.length / similarTotal;
+    if (similar.length === 0 || similarShare <= ownShare) continue;
+
+    const scored = similar
+      .map((post) => ({ post, engagement: scoreEngagement(post) }))
+      .sort((a, b) => b.engagement - a.engagement || postKey(a.post).localeCompare(postKey(b.post)));
+    const similarEngagement = scored.reduce((sum, entry) => sum + entry.engagement, 0) / scored.length;
+    const ownEngagement = ownPosts > 0 ? own.reduce((sum, post) => sum + scoreOwnEngagement(post), 0) / ownPosts : 0;
+    gaps.push({
+      themeId: theme.id,
+      label: theme.label,
+      topTerms: theme.topTerms,
+      ownPosts,
+      similarPosts: similar.length,
+      ownShare,
+      similarShare,
+      similarEngagement,
+      ownEngagement,
+      score: (similarShare - ownShare) * (1 + similarEngagement - ownEngagement),
+      examples: scored.slice(0, options.examples ?? DEFAULT_GAP_EXAMPLES).map(({ post, engagement }) => ({
+        channel: post.channel,
+        id: post.id,
+        kind: post.kind,
+        published_at: post.published_at,
+        snippet: truncate(post.text, 140),
+        engagement,
+      })),
+    });
+  }
+  return gaps
+    .sort((a, b) => b.score - a.score || a.themeId.localeCompare(b.themeId))
+    .slice(0, options.limit ?? DEFAULT_GAP_LIMIT);
+}
@@ -1,5 +1,29 @@
 import { readdir, readFile } from "node:fs/promises";
 import path from "node:path";
+import { assignDuplicateClusters, dedupePostsByKey } from "./dedup";
+import {
+  HISTORY_MANIFEST_FILE,
+  loadHistoryManifest,
+  resolveChannelKind,
+  type ChannelKind,
+  type HistoryManifest,
+} from "./historyManifest";
+import { csvHistoryImporter } from "./importers/csv";
+import { jsonlHistoryImporter } from "./importers/jsonl";
+import { telegramHtmlImporter } from "./importers/telegramHtml";
+
+export interface HistoryReaction {
+  type: "emoji" | "custom_emoji" | "paid";
+  /** Emoji character, or document id for custom emoji. */
+  emoji: string;
+  count: number;
+}
+
+export interface HistoryTextEntity {
+  type: string;
+  text: string;
+  href?: string;
+}
 
 export interface HistoryPost {
   id: string;
@@ -7,32 +31,81 @@ export interface HistoryPost {
   text: string;
   media?: string[];
   metrics?: Record<string, number>;
+  views?: number;
+  reactions?: HistoryReaction[];
+  forwarded_from?: string;
+  reply_to_message_id?: string;
+  edited?: string;
+  text_entities?: HistoryTextEntity[];
+  /** Ids of all Telegram messages merged into this post (photo albums). */
+  album_message_ids?: string[];
+}
+
+/** A source line an importer could not turn into a post; the rest of the file still loads. */
+export interface SkippedHistoryLine {
+  /** 1-based line number in the source file. */
+  line: number;
+  code: "invalid_json" | "invalid_post";
+  message: string;
 }
 
 export interface HistoryFile {
   channel: string;
   platform: "telegram";
   posts: HistoryPost[];
+  /** Lines dropped by line-based importers (JSONL); reported as post issues by lenient loading. */
+  skippedLines?: SkippedHistoryLine[];
 }
 
 export interface IndexedPost extends HistoryPost {
   channel: string;
+  kind: ChannelKind;
+  sourceFile: string;
+  /** Key of the earliest post among its near-duplicates; unset for unique texts. */
+  duplicateClusterId?: string;
+}
+
+export interface HistoryImportContext {
   sourceFile: string;
+  historyRoot?: string;
+  manifest?: HistoryManifest | null;
+}
+
+/** Turns one source file into a `HistoryFile`; picked by `matches(sourceFile)`. */
+export interface HistoryImporter {
+  name: string;
+  matches(sourceFile: string): boolean;
+  parse(raw: string, context: HistoryImportContext): HistoryFile;
 }
 
 interface TelegramReaction {
+  type?: string;
   count?: number;
+  emoji?: string;
+  document_id?: string;
+}
+
+interface TelegramTextEntity {
+  type?: string;
+  text?: string;
+  href?: string;
 }
 
 interface TelegramMessage {
   id?: number | string;
   type?: string;
   date?: string;
+  edited?: string;
   text?: string | Array<string | { text?: string }>;
+  text_entities?: TelegramTextEntity[];
   photo?: string;
   file_name?: string;
   media_type?: string;
   reactions?: TelegramReaction[];
+  views?: number;
+  forwarded_from?: string | null;
+  reply_to_message_id?: number | string;
+  grouped_id?: number | string;
 }
 
 interface TelegramExportFile {
@@ -41,21 +114,61 @@ interface TelegramExportFile {
   messages?: TelegramMessage[];
 }
 
-async function walkJsonFiles(dir: string): Promise<string[]> {
+const jsonHistoryImporter: HistoryImporter = {
+  name: "json",
+  matches: (sourceFile) => sourceFile.toLowerCase().endsWith(".json"),
+  parse: (raw, { sourceFile }) => parseJsonHistory(raw, sourceFile),
+};
+
+export const HISTORY_IMPORTERS: HistoryImporter[] = [
+  jsonHistoryImporter,
+  jsonlHistoryImporter,
+  csvHistoryImporter,
+  telegramHtmlImporter,
+];
+
+export function findHistoryImporter(
+  sourceFile: string,
+  importers: HistoryImporter[] = HISTORY_IMPORTERS,
+): HistoryImporter | undefined {
+  return importers.find((importer) => importer.matches(sourceFile));
+}
+
+async function walkHistoryFiles(dir: string, importers: HistoryImporter[]): Promise<string[]> {
   const entries = await readdir(dir, { withFileTypes: true });
   const files = await Promise.all(
     entries.map(async (entry) => {
       const fullPath = path.join(dir, entry.name);
       if (entry.isDirectory()) {
-        return walkJsonFiles(fullPath);
+        return walkHistoryFiles(fullPath, importers);
       }
-      return fullPath.endsWith(".json") ? [fullPath] : [];
+      return findHistoryImporter(fullPath, importers) ? [fullPath] : [];
     }),
   );
   return files.flat();
 }
 
-function parseHistoryFile(raw: string, sourceFile: string): HistoryFile {
+export async function listHistoryFiles(
+  historyRoot: string,
+  importers: HistoryImporter[] = HISTORY_IMPORTERS,
+): Promise<string[]> {
+  const manifestPath = path.join(historyRoot, HISTORY_MANIFEST_FILE);
+  const files = await walkHistoryFiles(historyRoot, importers);
+  return files.filter((filePath) => filePath !== manifestPath);
+}
+
+export function parseHistoryFile(
+  raw: string,
+  sourceFile: string,
+  context: Omit<HistoryImportContext, "sourceFile"> = {},
+  importers: HistoryImporter[] = HISTORY_IMPORTERS,
+): HistoryFile {
+  // Файлы без подходящего импортера по-прежнему читаются как JSON.
+  const importer = findHistoryImporter(sourceFile, importers) ?? jsonHistoryImporter;
+  return importer.parse(raw, { ...context, sourceFile });
+}
+
+function parseJsonHistory(raw: string, sourceFile: string): HistoryFile {
   const parsed = JSON.parse(raw) as Partial<HistoryFile> & TelegramExportFile;
 
   if (parsed.channel && parsed.platform === "telegram" && Array.isArray(parsed.posts)) {
@@ -101,31 +214,158 @@ function extractMedia(message: TelegramMessage): string[] | undefined {
   return media.length > 0 ? media : undefined;
 }
 
-function extractMetrics(message: TelegramMessage): Record<string, number> | undefined {
+function extractReactions(message: TelegramMessage): HistoryReaction[] | undefined {
   if (!Array.isArray(message.reactions) || message.reactions.length === 0) {
     return undefined;
   }
-  const reactions = message.reactions.reduce((sum, item) => {
-    return sum + (typeof item.count === "number" ? item.count : 0);
-  }, 0);
-  return { reactions };
+  const reactions: HistoryReaction[] = [];
+  for (const item of message.reactions) {
+    if (typeof item.count !== "number") continue;
+    if (item.type === "custom_emoji" && item.document_id) {
+      reactions.push({ type: "custom_emoji", emoji: item.document_id, count: item.count });
+    } else if (item.type === "paid") {
+      reactions.push({ type: "paid", emoji: "⭐", count: item.count });
+    } else if (typeof item.emoji === "string") {
+      reactions.push({ type: "emoji", emoji: item.emoji, count: item.count });
+    }
+  }
+  return reactions.length > 0 ? reactions : undefined;
+}
+
+function extractViews(message: TelegramMessage): number | undefined {
+  return typeof message.views === "number" && message.views >= 0 ? message.views : undefined;
+}
+
+function extractMetrics(message: TelegramMessage): Record<string, number> | undefined {
+  const metrics: Record<string, number> = {};
+  if (Array.isArray(message.reactions) && message.reactions.length > 0) {
+    metrics.reactions = message.reactions.reduce((sum, item) => {
+      return sum + (typeof item.count === "number" ? item.count : 0);
+    }, 0);
+  }
+  const views = extractViews(message);
+  if (views !== undefined) {
+    metrics.views = views;
+  }
+  return Object.keys(metrics).length > 0 ? metrics : undefined;
+}
+
+function extractTextEntities(message: TelegramMessage): HistoryTextEntity[] | undefined {
+  if (!Array.isArray(message.text_entities)) {
+    return undefined;
+  }
+  const entities = message.text_entities
+    .filter((entity) => typeof entity.type === "string" && entity.type !== "plain" && typeof entity.text === "string")
+    .map((entity) => ({
+      type: entity.type as string,
+      text: entity.text as string,
+      ...(typeof entity.href === "string" ? { href: entity.href } : {}),
+    }));
+  return entities.length > 0 ? entities : undefined;
+}
+
+function convertTelegramMessage(message: TelegramMessage): HistoryPost {
+  return {
+    id: String(message.id),
+    published_at: message.date as string,
+    text: normalizeTelegramText(message.text),
+    media: extractMedia(message),
+    metrics: extractMetrics(message),
+    views: extractViews(message),
+    reactions: extractReactions(message),
+    forwarded_from: typeof message.forwarded_from === "string" ? message.forwarded_from : undefined,
+    reply_to_message_id:
+      message.reply_to_message_id != null ? String(message.reply_to_message_id) : undefined,
+    edited: typeof message.edited === "string" ? message.edited : undefined,
+    text_entities: extractTextEntities(message),
+  };
+}
+
+function mergeReactions(parts: HistoryPost[]): HistoryReaction[] | undefined {
+  const merged = new Map<string, HistoryReaction>();
+  for (const reaction of parts.flatMap((part) => part.reactions ?? [])) {
+    const key = `${reaction.type}:${reaction.emoji}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.count += reaction.count;
+    } else {
+      merged.set(key, { ...reaction });
+    }
+  }
+  return merged.size > 0 ? Array.from(merged.values()) : undefined;
+}
+
+function mergeMetrics(parts: HistoryPost[]): Record<string, number> | undefined {
+  const metrics: Record<string, number> = {};
+  for (const part of parts) {
+    for (const [name, value] of Object.entries(part.metrics ?? {})) {
+      // Просмотры у частей альбома общие, поэтому берем максимум, а не сумму.
+      metrics[name] = name === "views" ? Math.max(metrics[name] ?? 0, value) : (metrics[name] ?? 0) + value;
+    }
+  }
+  return Object.keys(metrics).length > 0 ? metrics : undefined;
+}
+
+function mergeAlbumPosts(parts: HistoryPost[]): HistoryPost {
+  const captioned = parts.filter((part) => part.text.trim().length > 0);
+  const lead = captioned[0] ?? parts[0];
+  const media = Array.from(new Set(parts.flatMap((part) => part.media ?? [])));
+  const views = parts.reduce<number | undefined>(
+    (max, part) => (part.views === undefined ? max : Math.max(max ?? 0, part.views)),
+    undefined,
+  );
+  const entities = captioned.flatMap((part) => part.text_entities ?? []);
+
+  return {
+    ...lead,
+    published_at: parts[0].published_at,
+    text: captioned.map((part) => part.text.trim()).join("\n\n"),
+    media: media.length > 0 ? media : undefined,
+    metrics: mergeMetrics(parts),
+    views,
+    reactions: mergeReactions(parts),
+    text_entities: entities.length > 0 ? entities : undefined,
+    album_message_ids: parts.map((part) => part.id),
+  };
+}
+
+/**
+ * Telegram splits a photo album into messages sharing `grouped_id`, usually
+ * with the caption on only one of them. Each album becomes one post placed
+ * where its first message was.
+ */
+function groupAlbumMessages(messages: TelegramMessage[]): HistoryPost[] {
+  const albums = new Map<string, HistoryPost[]>();
+  const ordered: Array<HistoryPost | HistoryPost[]> = [];
+
+  for (const message of messages) {
+    const post = convertTelegramMessage(message);
+    if (message.grouped_id == null) {
+      ordered.push(post);
+      continue;
+    }
+    const groupKey = String(message.grouped_id);
+    const album = albums.get(groupKey);
+    if (album) {
+      album.push(post);
+    } else {
+      const parts = [post];
+      albums.set(groupKey, parts);
+      ordered.push(parts);
+    }
+  }
+
+  return ordered.map((entry) => {
+    if (!Array.isArray(entry)) return entry;
+    return entry.length === 1 ? entry[0] : mergeAlbumPosts(entry);
+  });
 }
 
 function convertTelegramExport(parsed: TelegramExportFile, sourceFile: string): HistoryFile {
-  const messages = parsed.messages ?? [];
-  const posts: HistoryPost[] = messages
-    .filter((message) => message.type === "message" && message.id != null && typeof message.date === "string")
-    .map((message) => {
-      const text = normalizeTelegramText(message.text);
-      return {
-        id: String(message.id),
-        published_at: message.date as string,
-        text,
-        media: extractMedia(message),
-        metrics: extractMetrics(message),
-      };
-    })
-    .filter((post) => post.text.trim().length > 0);
+  const messages = (parsed.messages ?? []).filter(
+    (message) => message.type === "message" && message.id != null && typeof message.date === "string",
+  );
+  const posts = groupAlbumMessages(messages).filter((post) => post.text.trim().length > 0);
 
   if (!parsed.name) {
     throw new Error(`Invalid telegram export schema: ${sourceFile}`);
@@ -138,25 +378,38 @@ function convertTelegramExport(parsed: TelegramExportFile, sourceFile: string):
   };
 }
 
-export async function loadHistoryFromDir(historyRoot: string): Promise<IndexedPost[]> {
-  const jsonFiles = await walkJsonFiles(historyRoot);
-  const indexedPosts: IndexedPost[] = [];
-
-  for (const filePath of jsonFiles) {
-    const raw = await readFile(filePath, "utf-8");
-    const history = parseHistoryFile(raw, filePath);
-    for (const post of history.posts) {
-      indexedPosts.push({
-        ...post,
-        channel: history.channel,
-        sourceFile: filePath,
-      });
-    }
-  }
+export function toIndexedPosts(history: HistoryFile, sourceFile: string, kind: ChannelKind): IndexedPost[] {
+  return history.posts.map((post) => ({
+    ...post,
+    channel: history.channel,
+    kind,
+    sourceFile,
+  }));
+}
 
-  return indexedPosts.sort((a, b) => {
+export function sortPostsByRecency(posts: IndexedPost[]): IndexedPost[] {
+  return posts.sort((a, b) => {
     const ta = Date.parse(a.published_at);
     const tb = Date.parse(b.published_at);
     return Number.isNaN(tb - ta) ? 0 : tb - ta;
   });
 }
+
+export async function loadHistoryFromDir(
+  historyRoot: string,
+  importers: HistoryImporter[] = HISTORY_IMPORTERS,
+): Promise<IndexedPost[]> {
+  const historyFiles = await listHistoryFiles(historyRoot, importers);
+  const manifest = await loadHistoryManifest(historyRoot);
+  const indexedPosts: IndexedPost[] = [];
+
+  for (const filePath of historyFiles) {
+    const raw = await readFile(filePath, "utf-8");
+    const history = parseHistoryFile(raw, filePath, { historyRoot, manifest }, importers);
+    const kind = resolveChannelKind(historyRoot, filePath, history.channel, manifest);
+    indexedPosts.push(...toIndexedPosts(history, filePath, kind));
+  }
+
+  // Пересекающиеся выгрузки одного канала дают одни и те же (channel, id).
+  return assignDuplicateClusters(sortPostsByRecency(dedupePostsByKey(indexedPosts)));
+}
@@ -0,0 +1,296 @@
+import { createHash } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { assignDuplicateClusters, postKey } from "./dedup";
+import {
+  HISTORY_IMPORTERS,
+  listHistoryFiles,
+  sortPostsByRecency,
+  toIndexedPosts,
+  type HistoryImporter,
+  type IndexedPost,
+} from "./history";
+import {
+  HISTORY_MANIFEST_FILE,
+  loadHistoryManifest,
+  matchPathRule,
+  resolveChannelKind,
+  type HistoryManifest,
+} from "./historyManifest";
+import {
+  buildValidationReport,
+  createIssue,
+  parseHistoryFileLenient,
+  type HistoryIssue,
+  type HistoryValidationReport,
+} from "./historyValidation";
+
+export interface IndexedFileState {
+  checksum: string;
+  /** Checksum of the manifest `csv` rule the file was parsed with; a changed rule forces a re-parse. */
+  ruleChecksum: string;
+  mtimeMs: number;
+  size: number;
+  postKeys: string[];
+  skipped: boolean;
+  issues: HistoryIssue[];
+}
+
+export interface HistoryIndexState {
+  files: Record<string, IndexedFileState>;
+  posts: Map<string, IndexedPost>;
+}
+
+export interface ReindexSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  filesScanned: number;
+  filesParsed: number;
+  filesRemoved: number;
+}
+
+export interface ReindexResult {
+  state: HistoryIndexState;
+  posts: IndexedPost[];
+  summary: ReindexSummary;
+  report: HistoryValidationReport;
+}
+
+export function createEmptyHistoryIndex(): HistoryIndexState {
+  return { files: {}, posts: new Map() };
+}
+
+function checksumOf(raw: string): string {
+  return createHash("sha256").update(raw).digest("hex");
+}
+
+/**
+ * Order-independent checksum of the indexed posts (key, kind, date, text):
+ * equal checksums mean generation saw the same history.
+ */
+export function historyChecksum(posts: IndexedPost[]): string {
+  const lines = posts.map((post) => [postKey(post), post.kind, post.published_at, post.text].join("\t")).sort();
+  return checksumOf(lines.join("\n"));
+}
+
+function parseRuleChecksum(historyRoot: string, filePath: string, manifest: HistoryManifest | null): string {
+  return checksumOf(JSON.stringify(matchPathRule(historyRoot, filePath, manifest?.csv) ?? null));
+}
+
+function postFingerprint(post: IndexedPost): string {
+  const { sourceFile: _sourceFile, ...content } = post;
+  return JSON.stringify(content);
+}
+
+async function loadManifestLenient(
+  historyRoot: string,
+): Promise<{ manifest: HistoryManifest | null; issues: HistoryIssue[] }> {
+  try {
+    return { manifest: await loadHistoryManifest(historyRoot), issues: [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof SyntaxError ? "invalid_json" : "invalid_schema";
+    const manifestPath = path.join(historyRoot, HISTORY_MANIFEST_FILE);
+    return { manifest: null, issues: [createIssue(code, manifestPath, message)] };
+  }
+}
+
+function buildIndexReport(
+  state: HistoryIndexState,
+  filesScanned: number,
+  extraIssues: HistoryIssue[],
+): HistoryValidationReport {
+  const issues: HistoryIssue[] = [...extraIssues];
+  const duplicates: HistoryIssue[] = [];
+  const keyOwners = new Map<string, string>();
+  let filesSkipped = 0;
+
+  for (const [filePath, fileState] of Object.entries(state.files)) {
+    issues.push(...fileState.issues);
+    if (fileState.skipped) filesSkipped += 1;
+    for (const key of fileState.postKeys) {
+      const owner = keyOwners.get(key);
+      if (owner === undefined) {
+        keyOwners.set(key, filePath);
+        continue;
+      }
+      const post = state.posts.get(key);
+      duplicates.push(
+        createIssue("duplicate_id", filePath, `Post is also present in ${owner}`, {
+          channel: post?.channel,
+          postId: post?.id,
+        }),
+      );
+    }
+  }
+
+  return buildValidationReport({
+    filesScanned,
+    filesSkipped,
+    postsAccepted: state.posts.size,
+    issues,
+    duplicates,
+  });
+}
+
+async function readFilePosts(
+  historyRoot: string,
+  filePath: string,
+  manifest: HistoryManifest | null,
+  importers: HistoryImporter[],
+): Promise<Map<string, IndexedPost>> {
+  const raw = await readFile(filePath, "utf-8");
+  const { history } = parseHistoryFileLenient(raw, filePath, { historyRoot, manifest }, importers);
+  if (!history) return new Map();
+  const kind = resolveChannelKind(historyRoot, filePath, history.channel, manifest);
+  return new Map(toIndexedPosts(history, filePath, kind).map((post) => [postKey(post), post]));
+}
+
+/**
+ * Brings the index in line with `historyRoot`: files with unchanged mtime/size
+ * or checksum and manifest parse rule are skipped, changed files are re-parsed and their posts upserted
+ * by (channel, id), posts of deleted files are dropped unless another indexed
+ * file still contains them, in which case they move to that file. Broken files and posts
+ * are skipped and listed in `report`; a file that breaks after being indexed
+ * keeps its previously indexed posts. `previous` is not mutated, so callers can
+ * keep serving it if reindexing throws.
+ */
+export async function reindexHistory(
+  historyRoot: string,
+  previous: HistoryIndexState = createEmptyHistoryIndex(),
+  importers: HistoryImporter[] = HISTORY_IMPORTERS,
+): Promise<ReindexResult> {
+  const historyFiles = await listHistoryFiles(historyRoot, importers);
+  const { manifest, issues: manifestIssues } = await loadManifestLenient(historyRoot);
+  const files: Record<string, IndexedFileState> = {};
+  const posts = new Map(previous.posts);
+  const summary: ReindexSummary = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    filesScanned: historyFiles.length,
+    filesParsed: 0,
+    filesRemoved: 0,
+  };
+
+  // Пост, пропавший из своего файла, может быть и в другом файле, поэтому
+  // решение откладывается до конца обхода, когда известны ключи всех файлов.
+  const orphaned = new Map<string, string>();
+  const dropOwnedPosts = (filePath: string, keys: string[], keep: Set<string>) => {
+    for (const key of keys) {
+      if (keep.has(key) || posts.get(key)?.sourceFile !== filePath) continue;
+      orphaned.set(key, filePath);
+    }
+  };
+
+  for (const filePath of historyFiles) {
+    // Исправленный маппинг колонок в манифесте меняет разбор файла, хотя сам файл прежний.
+    const ruleChecksum = parseRuleChecksum(historyRoot, filePath, manifest);
+    const prev = previous.files[filePath]?.ruleChecksum === ruleChecksum ? previous.files[filePath] : undefined;
+    const prevKeys = previous.files[filePath]?.postKeys ?? [];
+    const fileStat = await stat(filePath);
+    if (prev && prev.mtimeMs === fileStat.mtimeMs && prev.size === fileStat.size) {
+      files[filePath] = prev;
+      continue;
+    }
+
+    const raw = await readFile(filePath, "utf-8");
+    const checksum = checksumOf(raw);
+    if (prev && prev.checksum === checksum) {
+      files[filePath] = { ...prev, mtimeMs: fileStat.mtimeMs, size: fileStat.size };
+      continue;
+    }
+
+    const { history, issues } = parseHistoryFileLenient(raw, filePath, { historyRoot, manifest }, importers);
+    if (!history) {
+      files[filePath] = {
+        checksum,
+        ruleChecksum,
+        mtimeMs: fileStat.mtimeMs,
+        size: fileStat.size,
+        postKeys: prevKeys,
+        skipped: true,
+        issues,
+      };
+      continue;
+    }
+
+    const kind = resolveChannelKind(historyRoot, filePath, history.channel, manifest);
+    const filePosts = toIndexedPosts(history, filePath, kind);
+    const keys = new Set<string>();
+    for (const post of filePosts) {
+      const key = postKey(post);
+      keys.add(key);
+      const existing = posts.get(key);
+      if (!existing) {
+        summary.added += 1;
+      } else if (postFingerprint(existing) !== postFingerprint(post)) {
+        summary.updated += 1;
+      }
+      posts.set(key, post);
+    }
+
+    dropOwnedPosts(filePath, prevKeys, keys);
+    files[filePath] = {
+      checksum,
+      ruleChecksum,
+      mtimeMs: fileStat.mtimeMs,
+      size: fileStat.size,
+      postKeys: Array.from(keys),
+      skipped: false,
+      issues,
+    };
+    summary.filesParsed += 1;
+  }
+
+  for (const [filePath, prev] of Object.entries(previous.files)) {
+    if (files[filePath]) continue;
+    dropOwnedPosts(filePath, prev.postKeys, new Set());
+    summary.filesRemoved += 1;
+  }
+
+  if (orphaned.size > 0) {
+    const ownerByKey = new Map<string, string>();
+    for (const [filePath, fileState] of Object.entries(files)) {
+      for (const key of fileState.postKeys) {
+        if (!ownerByKey.has(key)) ownerByKey.set(key, filePath);
+      }
+    }
+    const ownerPosts = new Map<string, Map<string, IndexedPost>>();
+    for (const [key, fromFile] of orphaned) {
+      const existing = posts.get(key);
+      // Пост уже перезаписан другим файлом в этом же проходе.
+      if (!existing || existing.sourceFile !== fromFile) continue;
+      const owner = ownerByKey.get(key);
+      if (!owner || owner === fromFile) {
+        posts.delete(key);
+        summary.removed += 1;
+        continue;
+      }
+      if (!ownerPosts.has(owner)) {
+        ownerPosts.set(owner, await readFilePosts(historyRoot, owner, manifest, importers));
+      }
+      // Битый файл-владелец не перечитать: пост остается прежним, но принадлежит уже ему.
+      const rehomed = ownerPosts.get(owner)?.get(key) ?? { ...existing, sourceFile: owner };
+      if (postFingerprint(rehomed) !== postFingerprint(existing)) summary.updated += 1;
+      posts.set(key, rehomed);
+    }
+  }
+
+  // Манифест мог поменяться и без изменения файлов истории.
+  for (const [key, post] of posts) {
+    const kind = resolveChannelKind(historyRoot, post.sourceFile, post.channel, manifest);
+    if (kind === post.kind) continue;
+    posts.set(key, { ...post, kind });
+    summary.updated += 1;
+  }
+
+  const state: HistoryIndexState = { files, posts };
+  return {
+    state,
+    posts: assignDuplicateClusters(sortPostsByRecency(Array.from(posts.values()))),
+    summary,
+    report: buildIndexReport(state, historyFiles.length, manifestIssues),
+  };
+}
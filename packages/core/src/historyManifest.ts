@@ -0,0 +1,102 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { CsvColumnMapping } from "./importers/csv";
+
+export type ChannelKind = "own" | "similar";
+
+export const HISTORY_MANIFEST_FILE = "manifest.json";
+
+/** Default for files not matched by the manifest: `<HISTORY_DIR>/similar/**` holds similar channels. */
+const SIMILAR_DIR = "similar";
+
+/**
+ * Optional `<HISTORY_DIR>/manifest.json`:
+ * `{ "channels": { "<channel name>": "own" }, "paths": { "competitors": "similar" },
+ *    "csv": { "analytics": { "channel": "Sail Away", "columns": { "text": "Message" } } } }`.
+ * `channels` wins over `paths`; `paths` and `csv` keys are prefixes relative to
+ * HISTORY_DIR, the longest matching prefix wins and `"*"` matches any file.
+ */
+export interface HistoryManifest {
+  channels?: Record<string, ChannelKind>;
+  paths?: Record<string, ChannelKind>;
+  csv?: Record<string, CsvColumnMapping>;
+}
+
+function isChannelKind(value: unknown): value is ChannelKind {
+  return value === "own" || value === "similar";
+}
+
+function pickKinds(value: unknown): Record<string, ChannelKind> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>).filter(
+    (entry): entry is [string, ChannelKind] => isChannelKind(entry[1]),
+  );
+  return Object.fromEntries(entries);
+}
+
+// Маппинги проверяет сам CSV-импортер: ошибка в маппинге ломает только свои файлы.
+function pickCsvMappings(value: unknown): Record<string, CsvColumnMapping> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  return value as Record<string, CsvColumnMapping>;
+}
+
+export function parseHistoryManifest(raw: string, sourceFile: string): HistoryManifest {
+  const parsed = JSON.parse(raw) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid history manifest schema: ${sourceFile}`);
+  }
+  const record = parsed as Record<string, unknown>;
+  return {
+    channels: pickKinds(record.channels),
+    paths: pickKinds(record.paths),
+    csv: pickCsvMappings(record.csv),
+  };
+}
+
+export async function loadHistoryManifest(historyRoot: string): Promise<HistoryManifest | null> {
+  const manifestPath = path.join(historyRoot, HISTORY_MANIFEST_FILE);
+  let raw: string;
+  try {
+    raw = await readFile(manifestPath, "utf-8");
+  } catch {
+    return null;
+  }
+  return parseHistoryManifest(raw, manifestPath);
+}
+
+export function matchPathRule<T>(
+  historyRoot: string,
+  sourceFile: string,
+  rules: Record<string, T> | undefined,
+): T | undefined {
+  if (!rules) return undefined;
+  const relative = path.relative(historyRoot, sourceFile).split(path.sep).join("/");
+  const matched = Object.entries(rules)
+    .filter(([prefix]) => prefix !== "*")
+    .map(([prefix, value]) => [prefix.replace(/^\.?\/+|\/+$/g, ""), value] as const)
+    .filter(([prefix]) => relative === prefix || relative.startsWith(`${prefix}/`))
+    .sort((a, b) => b[0].length - a[0].length);
+  return matched[0] ? matched[0][1] : rules["*"];
+}
+
+/**
+ * Kind of a history file's channel: the manifest's `channels` entry, then its
+ * longest matching `paths` prefix, then `similar` for files under
+ * `<HISTORY_DIR>/similar/` and `own` for everything else.
+ */
+export function resolveChannelKind(
+  historyRoot: string,
+  sourceFile: string,
+  channel: string,
+  manifest: HistoryManifest | null,
+): ChannelKind {
+  const byChannel = manifest?.channels?.[channel];
+  if (byChannel) return byChannel;
+
+  const byPath = matchPathRule(historyRoot, sourceFile, manifest?.paths);
+  if (byPath) return byPath;
+
+  // Только папка similar/ в корне истории: одноименные вложенные папки ничего не значат.
+  const [topDir, ...rest] = path.relative(historyRoot, sourceFile).split(path.sep);
+  return rest.length > 0 && topDir?.toLowerCase() === SIMILAR_DIR ? "similar" : "own";
+}
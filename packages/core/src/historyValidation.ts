@@ -0,0 +1,183 @@
+import {
+  parseHistoryFile,
+  type HistoryFile,
+  type HistoryImportContext,
+  type HistoryImporter,
+  type HistoryPost,
+} from "./history";
+
+export type HistoryIssueCode =
+  | "invalid_json"
+  | "invalid_schema"
+  | "invalid_post"
+  | "invalid_published_at"
+  | "empty_channel"
+  | "duplicate_id"
+  | "empty_text";
+
+export interface HistoryIssue {
+  code: HistoryIssueCode;
+  severity: "error" | "warning";
+  file: string;
+  channel?: string;
+  postId?: string;
+  message: string;
+}
+
+export interface HistoryValidationReport {
+  generatedAt: string;
+  filesScanned: number;
+  filesLoaded: number;
+  filesSkipped: number;
+  postsAccepted: number;
+  postsSkipped: number;
+  /** Posts also present in another file: indexed once, not skipped. */
+  postsDeduplicated: number;
+  errors: number;
+  warnings: number;
+  countsByCode: Partial<Record<HistoryIssueCode, number>>;
+  issues: HistoryIssue[];
+}
+
+export interface LenientParseResult {
+  history: HistoryFile | null;
+  issues: HistoryIssue[];
+}
+
+const ERROR_CODES = new Set<HistoryIssueCode>([
+  "invalid_json",
+  "invalid_schema",
+  "invalid_post",
+  "invalid_published_at",
+]);
+
+export function createIssue(
+  code: HistoryIssueCode,
+  file: string,
+  message: string,
+  details: Pick<HistoryIssue, "channel" | "postId"> = {},
+): HistoryIssue {
+  return {
+    code,
+    severity: ERROR_CODES.has(code) ? "error" : "warning",
+    file,
+    ...details,
+    message,
+  };
+}
+
+function describePostId(raw: Partial<HistoryPost>, index: number): string {
+  return typeof raw.id === "string" || typeof raw.id === "number" ? String(raw.id) : `#${index}`;
+}
+
+/**
+ * Parses one history file without throwing: broken files come back with
+ * `history: null`, broken posts are dropped, and every problem is reported as
+ * an issue. Posts that survive are safe to index.
+ */
+export function parseHistoryFileLenient(
+  raw: string,
+  sourceFile: string,
+  context: Omit<HistoryImportContext, "sourceFile"> = {},
+  importers?: HistoryImporter[],
+): LenientParseResult {
+  let parsed: HistoryFile;
+  try {
+    parsed = parseHistoryFile(raw, sourceFile, context, importers);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof SyntaxError ? "invalid_json" : "invalid_schema";
+    return { history: null, issues: [createIssue(code, sourceFile, message)] };
+  }
+
+  const channel = typeof parsed.channel === "string" ? parsed.channel.trim() : "";
+  if (!channel) {
+    return {
+      history: null,
+      issues: [createIssue("invalid_schema", sourceFile, "Channel name is missing")],
+    };
+  }
+
+  const issues: HistoryIssue[] = (parsed.skippedLines ?? []).map((skipped) =>
+    createIssue(skipped.code, sourceFile, skipped.message, { channel, postId: `line ${skipped.line}` }),
+  );
+  const posts: HistoryPost[] = [];
+  const seenIds = new Set<string>();
+
+  parsed.posts.forEach((item, index) => {
+    const post = (item ?? {}) as Partial<HistoryPost>;
+    const postId = describePostId(post, index);
+    const details = { channel, postId };
+
+    if (
+      (typeof post.id !== "string" && typeof post.id !== "number") ||
+      typeof post.published_at !== "string" ||
+      (post.text !== undefined && typeof post.text !== "string")
+    ) {
+      issues.push(createIssue("invalid_post", sourceFile, "Post must have id, published_at and text", details));
+      return;
+    }
+    if (Number.isNaN(Date.parse(post.published_at))) {
+      issues.push(
+        createIssue("invalid_published_at", sourceFile, `Unparseable published_at: ${post.published_at}`, details),
+      );
+      return;
+    }
+    if (seenIds.has(postId)) {
+      issues.push(createIssue("duplicate_id", sourceFile, "Duplicate post id within file", details));
+      return;
+    }
+    if (!post.text || post.text.trim().length === 0) {
+      issues.push(createIssue("empty_text", sourceFile, "Post has no text", details));
+      return;
+    }
+
+    seenIds.add(postId);
+    posts.push({ ...(post as HistoryPost), id: postId });
+  });
+
+  if (posts.length === 0) {
+    issues.push(createIssue("empty_channel", sourceFile, "No valid posts in file", { channel }));
+  }
+
+  return {
+    history: { ...parsed, channel, posts },
+    issues,
+  };
+}
+
+export function buildValidationReport(input: {
+  filesScanned: number;
+  filesSkipped: number;
+  postsAccepted: number;
+  issues: HistoryIssue[];
+  /** Cross-file duplicates; listed as issues but counted in `postsDeduplicated`. */
+  duplicates?: HistoryIssue[];
+}): HistoryValidationReport {
+  const duplicates = input.duplicates ?? [];
+  const issues = [...input.issues, ...duplicates];
+  const countsByCode: Partial<Record<HistoryIssueCode, number>> = {};
+  let errors = 0;
+  let postsSkipped = 0;
+  for (const issue of issues) {
+    countsByCode[issue.code] = (countsByCode[issue.code] ?? 0) + 1;
+    if (issue.severity === "error") errors += 1;
+  }
+  for (const issue of input.issues) {
+    if (issue.postId && issue.code !== "empty_channel") postsSkipped += 1;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    filesScanned: input.filesScanned,
+    filesLoaded: input.filesScanned - input.filesSkipped,
+    filesSkipped: input.filesSkipped,
+    postsAccepted: input.postsAccepted,
+    postsSkipped,
+    postsDeduplicated: duplicates.length,
+    errors,
+    warnings: issues.length - errors,
+    countsByCode,
+    issues,
+  };
+}
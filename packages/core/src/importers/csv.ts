@@ -0,0 +1,170 @@
+import path from "node:path";
+import type { HistoryFile, HistoryImporter, HistoryPost } from "../history";
+import { matchPathRule } from "../historyManifest";
+
+export type CsvField = "id" | "published_at" | "text" | "views" | "reactions" | "media";
+
+/**
+ * Column mapping for CSV dumps, set per path prefix in the history manifest
+ * (`"csv": { "<prefix>": mapping }`). Unmapped fields are looked up by their
+ * own name; `media` cells may hold several paths separated by `|`.
+ */
+export interface CsvColumnMapping {
+  /** Channel name for the whole file; defaults to the file name. */
+  channel?: string;
+  /** Single-character delimiter; detected from the header when omitted. */
+  delimiter?: string;
+  columns?: Partial<Record<CsvField, string>>;
+}
+
+const CSV_FIELDS: CsvField[] = ["id", "published_at", "text", "views", "reactions", "media"];
+const REQUIRED_FIELDS: CsvField[] = ["id", "published_at", "text"];
+
+export function parseCsvMapping(value: unknown, source: string): CsvColumnMapping {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`Invalid csv mapping: ${source}`);
+  }
+  const record = value as Record<string, unknown>;
+  const mapping: CsvColumnMapping = {};
+  if (typeof record.channel === "string" && record.channel.trim().length > 0) {
+    mapping.channel = record.channel.trim();
+  }
+  if (record.delimiter !== undefined) {
+    if (typeof record.delimiter !== "string" || record.delimiter.length !== 1) {
+      throw new Error(`Invalid csv delimiter: ${source}`);
+    }
+    mapping.delimiter = record.delimiter;
+  }
+  if (record.columns !== undefined) {
+    if (!record.columns || typeof record.columns !== "object" || Array.isArray(record.columns)) {
+      throw new Error(`Invalid csv columns: ${source}`);
+    }
+    const columns = record.columns as Record<string, unknown>;
+    mapping.columns = Object.fromEntries(
+      CSV_FIELDS.filter((field) => typeof columns[field] === "string").map((field) => [field, columns[field]]),
+    );
+  }
+  return mapping;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best,
+  );
+}
+
+/** RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes. */
+export function parseCsvRows(raw: string, delimiter: string): string[][] {
+  const text = raw.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else {
+        quoted = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+function parseCount(cell: string | undefined): number | undefined {
+  const normalized = cell?.replace(/[\s,]/g, "");
+  if (!normalized) return undefined;
+  const value = Number(normalized);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+export const csvHistoryImporter: HistoryImporter = {
+  name: "csv",
+  matches: (sourceFile) => sourceFile.toLowerCase().endsWith(".csv"),
+  parse(raw, { sourceFile, historyRoot, manifest }): HistoryFile {
+    const rule = historyRoot ? matchPathRule(historyRoot, sourceFile, manifest?.csv) : undefined;
+    const mapping = rule ? parseCsvMapping(rule, sourceFile) : {};
+    const delimiter = mapping.delimiter ?? detectDelimiter(raw.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0]);
+    let rows: string[][];
+    try {
+      rows = parseCsvRows(raw, delimiter);
+    } catch (error) {
+      throw new Error(`Invalid CSV (${(error as Error).message}): ${sourceFile}`);
+    }
+
+    const header = (rows[0] ?? []).map((cell) => cell.trim().toLowerCase());
+    const columnIndex = new Map<CsvField, number>();
+    for (const field of CSV_FIELDS) {
+      const column = (mapping.columns?.[field] ?? field).trim().toLowerCase();
+      const index = header.indexOf(column);
+      if (index >= 0) columnIndex.set(field, index);
+    }
+    const missing = REQUIRED_FIELDS.filter((field) => !columnIndex.has(field));
+    if (missing.length > 0) {
+      throw new Error(`Invalid CSV header, missing columns ${missing.join(", ")}: ${sourceFile}`);
+    }
+
+    const posts = rows.slice(1).map((cells) => {
+      const cell = (field: CsvField) => {
+        const index = columnIndex.get(field);
+        return index === undefined ? undefined : cells[index]?.trim();
+      };
+      // Пустые id и дата остаются undefined, чтобы валидация отбросила строку.
+      const post = {
+        id: cell("id") || undefined,
+        published_at: cell("published_at") || undefined,
+        text: cell("text") ?? "",
+      } as HistoryPost;
+      const views = parseCount(cell("views"));
+      const reactions = parseCount(cell("reactions"));
+      const media = (cell("media") ?? "")
+        .split("|")
+        .map((item) => item.trim())
+        .filter(Boolean);
+      if (views !== undefined) post.views = views;
+      if (views !== undefined || reactions !== undefined) {
+        post.metrics = {
+          ...(views !== undefined ? { views } : {}),
+          ...(reactions !== undefined ? { reactions } : {}),
+        };
+      }
+      if (media.length > 0) post.media = media;
+      return post;
+    });
+
+    return {
+      channel: mapping.channel ?? path.basename(sourceFile, path.extname(sourceFile)),
+      platform: "telegram",
+      posts,
+    };
+  },
+};
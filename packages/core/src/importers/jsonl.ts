@@ -0,0 +1,48 @@
+import path from "node:path";
+import type { HistoryFile, HistoryImporter, HistoryPost, SkippedHistoryLine } from "../history";
+
+/**
+ * One `HistoryPost` per line. The channel comes from a `channel` field on the
+ * lines (the first one wins) or, failing that, from the file name. A malformed
+ * line is listed in `skippedLines` and the other lines still load.
+ */
+export const jsonlHistoryImporter: HistoryImporter = {
+  name: "jsonl",
+  matches: (sourceFile) => sourceFile.toLowerCase().endsWith(".jsonl"),
+  parse(raw, { sourceFile }): HistoryFile {
+    const posts: HistoryPost[] = [];
+    const skippedLines: SkippedHistoryLine[] = [];
+    let channel: string | undefined;
+
+    raw.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        skippedLines.push({ line: index + 1, code: "invalid_json", message: `Invalid JSON on line ${index + 1}` });
+        return;
+      }
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        skippedLines.push({
+          line: index + 1,
+          code: "invalid_post",
+          message: `Line ${index + 1} is not a post object`,
+        });
+        return;
+      }
+      const { channel: lineChannel, ...post } = parsed as HistoryPost & { channel?: unknown };
+      if (!channel && typeof lineChannel === "string" && lineChannel.trim().length > 0) {
+        channel = lineChannel.trim();
+      }
+      posts.push(post as HistoryPost);
+    });
+
+    return {
+      channel: channel ?? path.basename(sourceFile, path.extname(sourceFile)),
+      platform: "telegram",
+      posts,
+      skippedLines,
+    };
+  },
+};
@@ -0,0 +1,157 @@
+import path from "node:path";
+import type { HistoryFile, HistoryImporter, HistoryPost, HistoryReaction, HistoryTextEntity } from "../history";
+
+// Telegram Desktop кладет экспорт в messages.html, messages2.html, ... рядом с css/js.
+const MESSAGE_PAGE_PATTERN = /^messages\d*\.html$/i;
+const MESSAGE_OPEN_PATTERN = /<div class="message ([^"]*)" id="message(-?\d+)"[^>]*>/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const hex = entity[1].toLowerCase() === "x";
+      const code = Number.parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).trim();
+}
+
+/** Inner HTML of the first `<div>` carrying `className`, with nested divs balanced. */
+function extractDiv(html: string, className: string): string | undefined {
+  const open = new RegExp(`<div class="(?:[^"]*\\s)?${className}(?:\\s[^"]*)?"[^>]*>`, "i").exec(html);
+  if (!open) return undefined;
+  const start = open.index + open[0].length;
+  const tags = /<(\/?)div\b[^>]*>/gi;
+  tags.lastIndex = start;
+  let depth = 1;
+  for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) return html.slice(start, tag.index);
+  }
+  return html.slice(start);
+}
+
+/** `10.01.2026 12:00:00 UTC+03:00` -> `2026-01-10T12:00:00+03:00`. */
+function parseExportDate(title: string): string {
+  const match = /^(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2}):(\d{2})(?: UTC([+-]\d{2}:\d{2}))?/.exec(title.trim());
+  if (!match) return title.trim();
+  const [, day, month, year, hours, minutes, seconds, offset] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset ?? ""}`;
+}
+
+function extractTextEntities(textHtml: string): HistoryTextEntity[] | undefined {
+  const entities: HistoryTextEntity[] = [];
+  for (const link of textHtml.matchAll(/<a\b[^>]*?href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi)) {
+    const href = decodeHtmlEntities(link[1]);
+    const text = htmlToText(link[2]);
+    if (!text) continue;
+    if (!href) {
+      entities.push({ type: text.startsWith("#") ? "hashtag" : "mention", text });
+    } else {
+      entities.push(href === text ? { type: "link", text } : { type: "text_link", text, href });
+    }
+  }
+  return entities.length > 0 ? entities : undefined;
+}
+
+function extractMedia(messageHtml: string): string[] | undefined {
+  const mediaHtml = extractDiv(messageHtml, "media_wrap");
+  if (!mediaHtml) return undefined;
+  const media = Array.from(mediaHtml.matchAll(/href="([^"#][^"]*)"/g))
+    .map((match) => decodeHtmlEntities(match[1]))
+    .filter((href) => !href.includes("://"));
+  return media.length > 0 ? Array.from(new Set(media)) : undefined;
+}
+
+function extractReactions(messageHtml: string): HistoryReaction[] | undefined {
+  const reactions: HistoryReaction[] = [];
+  const parts = messageHtml.split(/<(?:span|div) class="reaction(?=[\s"])/).slice(1);
+  for (const part of parts) {
+    const count = /<(?:span|div) class="count">\s*([\d\s]+)/.exec(part);
+    if (!count) continue;
+    const value = Number(count[1].replace(/\s/g, ""));
+    const emoji = /<(?:span|div) class="emoji">([\s\S]*?)<\/(?:span|div)>/.exec(part);
+    const emojiText = emoji ? htmlToText(emoji[1]) : "";
+    if (/^[^"]*\bpaid\b/.test(part)) {
+      reactions.push({ type: "paid", emoji: "⭐", count: value });
+    } else if (emojiText) {
+      reactions.push({ type: "emoji", emoji: emojiText, count: value });
+    } else {
+      reactions.push({ type: "custom_emoji", emoji: "custom", count: value });
+    }
+  }
+  return reactions.length > 0 ? reactions : undefined;
+}
+
+function extractForwardedFrom(messageHtml: string): string | undefined {
+  const forwarded = extractDiv(messageHtml, "forwarded");
+  const fromName = forwarded ? extractDiv(forwarded, "from_name") : undefined;
+  if (!fromName) return undefined;
+  // Внутри from_name экспорт дописывает дату оригинала в <span class="details">.
+  const name = htmlToText(fromName.replace(/<span class="[^"]*details[^"]*">[\s\S]*?<\/span>/g, ""));
+  return name || undefined;
+}
+
+function convertHtmlMessage(id: string, messageHtml: string): HistoryPost | null {
+  const date = /class="[^"]*\bdate details\b[^"]*" title="([^"]+)"/.exec(messageHtml);
+  if (!date) return null;
+  const textHtml = extractDiv(messageHtml, "text") ?? "";
+  const reactions = extractReactions(messageHtml);
+  const replyTo = /GoToMessage\((\d+)\)/.exec(extractDiv(messageHtml, "reply_to") ?? "");
+
+  return {
+    id,
+    published_at: parseExportDate(decodeHtmlEntities(date[1])),
+    text: htmlToText(textHtml),
+    media: extractMedia(messageHtml),
+    metrics: reactions
+      ? { reactions: reactions.reduce((sum, reaction) => sum + reaction.count, 0) }
+      : undefined,
+    reactions,
+    forwarded_from: extractForwardedFrom(messageHtml),
+    reply_to_message_id: replyTo ? replyTo[1] : undefined,
+    text_entities: extractTextEntities(textHtml),
+  };
+}
+
+/**
+ * Telegram Desktop HTML export. Every page becomes its own `HistoryFile` with
+ * the channel name from the page header; service messages and posts without
+ * text are dropped, as in the JSON export. HTML pages carry no views.
+ */
+export const telegramHtmlImporter: HistoryImporter = {
+  name: "telegram-html",
+  matches: (sourceFile) => MESSAGE_PAGE_PATTERN.test(path.basename(sourceFile)),
+  parse(raw, { sourceFile }): HistoryFile {
+    const header = extractDiv(raw, "page_header");
+    const channel = header ? htmlToText(extractDiv(header, "text") ?? "") : "";
+    if (!channel) {
+      throw new Error(`Invalid telegram html export, channel name not found: ${sourceFile}`);
+    }
+
+    const openings = Array.from(raw.matchAll(MESSAGE_OPEN_PATTERN));
+    const posts: HistoryPost[] = [];
+    openings.forEach((opening, index) => {
+      const [, classes, id] = opening;
+      if (!/\bdefault\b/.test(classes)) return;
+      const end = openings[index + 1]?.index ?? raw.length;
+      const post = convertHtmlMessage(id, raw.slice(opening.index ?? 0, end));
+      if (post && post.text.trim().length > 0) posts.push(post);
+    });
+
+    return { channel, platform: "telegram", posts };
+  },
+};
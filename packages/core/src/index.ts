@@ -6,11 +6,210 @@ export function healthcheck(): HealthStatus {
 
 export { loadConfig, type AppConfig } from "./config";
 export {
+  assignDuplicateClusters,
+  dedupePostsByKey,
+  duplicateClusterKey,
+  postKey,
+  takeOnePerCluster,
+} from "./dedup";
+export {
+  createMemoryEmbeddingStore,
+  embedWithStore,
+  openEmbeddingStore,
+  type EmbeddingStore,
+} from "./embeddingStore";
+export {
+  createEngagementScorer,
+  getReactionTotal,
+  getViewCount,
+  getWeightedReactions,
+} from "./engagement";
+export {
+  HISTORY_IMPORTERS,
+  findHistoryImporter,
   loadHistoryFromDir,
+  parseHistoryFile,
   type HistoryFile,
+  type HistoryImportContext,
+  type HistoryImporter,
   type HistoryPost,
+  type HistoryReaction,
+  type HistoryTextEntity,
   type IndexedPost,
 } from "./history";
+export {
+  createEmptyHistoryIndex,
+  historyChecksum,
+  reindexHistory,
+  type HistoryIndexState,
+  type ReindexResult,
+  type ReindexSummary,
+} from "./historyIndex";
+export {
+  HISTORY_MANIFEST_FILE,
+  loadHistoryManifest,
+  resolveChannelKind,
+  type ChannelKind,
+  type HistoryManifest,
+} from "./historyManifest";
+export {
+  parseHistoryFileLenient,
+  type HistoryIssue,
+  type HistoryIssueCode,
+  type HistoryValidationReport,
+} from "./historyValidation";
+export { csvHistoryImporter, type CsvColumnMapping } from "./importers/csv";
+export { jsonlHistoryImporter } from "./importers/jsonl";
+export { telegramHtmlImporter } from "./importers/telegramHtml";
+export {
+  callWithRetry,
+  classifyLlmError,
+  DEFAULT_LLM_CALL_POLICY,
+  LlmError,
+  withRetries,
+  type LlmCallPolicy,
+  type LlmErrorKind,
+} from "./llmCall";
+export {
+  createLlmProvider,
+  type EmbeddingResult,
+  type JsonSchemaFormat,
+  type LlmProvider,
+  type LlmUsage,
+  type LlmProviderKind,
+  type TextGenerationRequest,
+  type TextGenerationResult,
+} from "./llmProvider";
 export { buildNext10Plan, type PlanItem } from "./planner";
-export { buildNext10PlanRag } from "./rag";
-export { buildDraftPostRag, type DraftResult } from "./draft";
+export {
+  DEFAULT_PROMPTS_DIR,
+  isPromptLanguage,
+  loadPromptSet,
+  parsePromptTemplate,
+  PROMPT_LANGUAGES,
+  PROMPT_NAMES,
+  renderPrompt,
+  type PromptLanguage,
+  type PromptName,
+  type PromptSet,
+  type PromptSetOptions,
+  type PromptTemplate,
+} from "./prompts";
+export {
+  createFakeProvider,
+  hashEmbedding,
+  type FakeLlmProvider,
+  type FakeProviderOptions,
+  type FakeResponse,
+} from "./providers/fake";
+export { createOpenAiProvider, type OpenAiProviderOptions } from "./providers/openai";
+export {
+  createOpenAiCompatibleProvider,
+  type OpenAiCompatibleProviderOptions,
+} from "./providers/openaiCompatible";
+export {
+  createReplayProvider,
+  type LlmFixtureFile,
+  type RecordedTextCall,
+  type ReplayMode,
+  type ReplayProviderOptions,
+} from "./providers/replay";
+export {
+  computeHistoryStats,
+  type ChannelStats,
+  type DistributionStats,
+  type HistoryStats,
+  type HistoryStatsOptions,
+} from "./stats";
+export {
+  checkStructuredOutput,
+  extractJson,
+  generateStructured,
+  toProviderJsonSchema,
+  validateJson,
+  type JsonSchema,
+  type SchemaIssue,
+  type StructuredCheck,
+  type StructuredRequest,
+} from "./structuredOutput";
+export {
+  aggregateUsage,
+  DEFAULT_PRICE_TABLE,
+  estimateCostUsd,
+  parsePriceTable,
+  summarizeUsage,
+  withUsageTracking,
+  type LlmCallKind,
+  type LlmUsageEntry,
+  type ModelPrice,
+  type PriceTable,
+  type UsageListener,
+  type UsagePeriod,
+  type UsageRecord,
+  type UsageSummaryOptions,
+  type UsageTotals,
+} from "./usage";
+export {
+  analyzeText,
+  analyzeWords,
+  createBm25Index,
+  stemEnglish,
+  stemRussian,
+  type AnalyzedWord,
+  type Bm25Options,
+  type LexicalIndex,
+} from "./lexical";
+export {
+  buildNext10PlanRag,
+  type PreviousTopic,
+  type RagOptions,
+  type RagPlanResult,
+  type RejectedTopic,
+} from "./rag";
+export {
+  cosineSimilarity,
+  createRetriever,
+  DEFAULT_RETRIEVAL_WEIGHTS,
+  type ChannelKindWeights,
+  type ExplainedPost,
+  type RetrievalRejection,
+  type RetrievalFilters,
+  type RetrievalQuery,
+  type RetrievalWeights,
+  type Retriever,
+  type RetrieverOptions,
+  type ScoreComponents,
+  type ScoredPost,
+} from "./retriever";
+export {
+  buildDraftPostRag,
+  explainDraftReferences,
+  type DraftKeywordHints,
+  type DraftResult,
+  type ExplainReferencesOptions,
+  type ReferenceExplanation,
+  type ReferenceExplanationResult,
+  type ReferenceHints,
+} from "./draft";
+export {
+  dedupeTopics,
+  DEFAULT_TOPIC_DEDUP_THRESHOLD,
+  type TopicCollision,
+  type TopicCollisionKind,
+  type TopicDedupItem,
+  type TopicDedupResult,
+  type TopicReference,
+} from "./topicDedup";
+export {
+  buildThemeIndex,
+  clusterThemes,
+  type Theme,
+  type ThemeClusteringOptions,
+  type ThemeEngagement,
+  type ThemeExample,
+  type ThemeIndex,
+  type ThemeIndexOptions,
+  type ThemeLabeler,
+  type ThemeMembership,
+} from "./themes";
+export { findContentGaps, type ContentGap, type ContentGapOptions, type GapExample } from "./gaps";
@@ -0,0 +1,201 @@
+const RU_VOWELS = "аеиоуыэюя";
+
+const RU_STOP_WORDS = [
+  "а", "без", "более", "бы", "был", "была", "были", "было", "быть", "в", "вам", "вас", "весь", "во", "вот", "все",
+  "всего", "всех", "вы", "где", "да", "даже", "для", "до", "его", "ее", "если", "есть", "еще", "же", "за", "здесь",
+  "и", "из", "или", "им", "их", "к", "как", "когда", "кто", "ли", "либо", "мы", "на", "над", "надо", "наш", "не",
+  "него", "нее", "нет", "ни", "них", "но", "ну", "о", "об", "однако", "он", "она", "они", "оно", "от", "очень", "по",
+  "под", "при", "с", "со", "так", "также", "такой", "там", "те", "тем", "то", "того", "тоже", "той", "только", "том",
+  "ты", "у", "уже", "хотя", "чего", "чей", "чем", "что", "чтобы", "эта", "эти", "это", "этого", "этой", "этом", "этот",
+  "я",
+];
+
+const EN_STOP_WORDS = [
+  "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "but", "by", "can", "do",
+  "does", "for", "from", "had", "has", "have", "he", "her", "his", "how", "i", "if", "in", "into", "is", "it", "its",
+  "just", "more", "my", "no", "not", "of", "on", "or", "our", "out", "she", "so", "than", "that", "the", "their",
+  "them", "then", "there", "these", "they", "this", "to", "up", "was", "we", "were", "what", "when", "which", "who",
+  "will", "with", "you", "your",
+];
+
+const STOP_WORDS = new Set([...RU_STOP_WORDS, ...EN_STOP_WORDS]);
+
+// Падежные окончания существительных и прилагательных (по Snowball). Глагольные
+// окончания не снимаются: "-н", "-ла", "-ны" путают их с "катамаран", "катамараны".
+const ADJECTIVE = [
+  "ее", "ие", "ые", "ое", "ими", "ыми", "ей", "ий", "ый", "ой", "ем", "им", "ым", "ом", "его", "ого", "ему", "ому",
+  "их", "ых", "ую", "юю", "ая", "яя", "ою", "ею",
+];
+const NOUN = [
+  "а", "ев", "ов", "ие", "ье", "е", "иями", "ями", "ами", "еи", "ии", "и", "ией", "ей", "ой", "ий", "й", "иям", "ям",
+  "ием", "ем", "ам", "ом", "о", "у", "ах", "иях", "ях", "ы", "ь", "ию", "ью", "ю", "ия", "ья", "я",
+];
+const CASE_ENDINGS = Array.from(new Set([...ADJECTIVE, ...NOUN])).sort((a, b) => b.length - a.length);
+const REFLEXIVE = ["ся", "сь"];
+const DERIVATIONAL = ["ость", "ост"];
+const SUPERLATIVE = ["ейше", "ейш"];
+
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+function isRuVowel(char: string): boolean {
+  return RU_VOWELS.includes(char);
+}
+
+/** Start of the region after the first vowel followed by a non-vowel, from `from`. */
+function regionStart(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i += 1) {
+    if (!isRuVowel(word[i]) && isRuVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+function removeLongest(word: string, endings: string[]): string | null {
+  const ending = endings.find((candidate) => word.endsWith(candidate));
+  return ending === undefined ? null : word.slice(0, word.length - ending.length);
+}
+
+/**
+ * Light Russian stemmer: strips reflexive and case endings of nouns and
+ * adjectives after the first vowel, then the Snowball clean-up steps
+ * ("-ость", "-ейш", "нн", "ь"). "катамараны", "катамараном" -> "катамаран".
+ */
+export function stemRussian(input: string): string {
+  const word = input.toLowerCase().replace(/ё/g, "е");
+  const firstVowel = Array.from(word).findIndex(isRuVowel);
+  if (firstVowel === -1) return word;
+
+  const prefix = word.slice(0, firstVowel + 1);
+  let rv = word.slice(firstVowel + 1);
+  const r2Start = regionStart(word, regionStart(word, 0));
+
+  rv = removeLongest(rv, REFLEXIVE) ?? rv;
+  rv = removeLongest(rv, CASE_ENDINGS) ?? rv;
+  if (rv.endsWith("и")) rv = rv.slice(0, -1);
+
+  const derivational = DERIVATIONAL.find((ending) => rv.endsWith(ending));
+  if (derivational && prefix.length + rv.length - derivational.length >= r2Start) {
+    rv = rv.slice(0, -derivational.length);
+  }
+
+  const superlative = SUPERLATIVE.find((ending) => rv.endsWith(ending));
+  if (superlative) rv = rv.slice(0, -superlative.length);
+  if (rv.endsWith("нн")) {
+    rv = rv.slice(0, -1);
+  } else if (rv.endsWith("ь")) {
+    rv = rv.slice(0, -1);
+  }
+
+  return prefix + rv;
+}
+
+function hasVowel(text: string): boolean {
+  return /[aeiouy]/.test(text);
+}
+
+/** Light English stemmer for plurals, `-ing`, `-ed` and `-ly`: "sailing", "sailed", "sails" -> "sail". */
+export function stemEnglish(input: string): string {
+  let word = input.toLowerCase();
+  if (word.length <= 3) return word;
+
+  if (word.endsWith("sses")) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith("ies")) {
+    word = `${word.slice(0, -3)}y`;
+  } else if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  for (const suffix of ["ing", "ed"]) {
+    const stem = word.slice(0, -suffix.length);
+    if (word.endsWith(suffix) && stem.length >= 3 && hasVowel(stem)) {
+      word = /([^aeioulsz])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+      break;
+    }
+  }
+
+  if (word.endsWith("ly") && word.length > 4) {
+    word = word.slice(0, -2);
+  }
+  return word;
+}
+
+export interface AnalyzedWord {
+  term: string;
+  /** The lowercased word the term was stemmed from. */
+  word: string;
+}
+
+/** `analyzeText` that keeps the source word of every term, e.g. for readable labels. */
+export function analyzeWords(text: string): AnalyzedWord[] {
+  const words: AnalyzedWord[] = [];
+  for (const raw of text.toLowerCase().replace(/ё/g, "е").split(/[^\p{L}\p{N}]+/u)) {
+    if (raw.length < 2 || STOP_WORDS.has(raw)) continue;
+    const term = /[а-я]/.test(raw) ? stemRussian(raw) : /^[a-z]+$/.test(raw) ? stemEnglish(raw) : raw;
+    if (term.length >= 2) words.push({ term, word: raw });
+  }
+  return words;
+}
+
+/**
+ * Lowercased, stop-word-free, stemmed terms of `text`; the stemmer is picked
+ * per word by script, so mixed Russian/English posts work.
+ */
+export function analyzeText(text: string): string[] {
+  return analyzeWords(text).map((entry) => entry.term);
+}
+
+export interface Bm25Options {
+  k1?: number;
+  b?: number;
+}
+
+export interface LexicalIndex {
+  /**
+   * BM25 of document `index` for the unique `queryTerms`, divided by the sum
+   * of their IDF: about 1 when every term occurs once in a document of
+   * average length, capped at 1, so it combines with cosine scores.
+   */
+  score(queryTerms: string[], index: number): number;
+}
+
+/** BM25 over analyzed documents (see `analyzeText`); IDF comes from these documents only. */
+export function createBm25Index(documents: string[][], options: Bm25Options = {}): LexicalIndex {
+  const k1 = options.k1 ?? DEFAULT_K1;
+  const b = options.b ?? DEFAULT_B;
+  const termFrequencies = documents.map((terms) => {
+    const counts = new Map<string, number>();
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+    return counts;
+  });
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termFrequencies) {
+    for (const term of counts.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const totalLength = documents.reduce((sum, terms) => sum + terms.length, 0);
+  const averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  const idf = (term: string): number => {
+    const df = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    score(queryTerms, index) {
+      const counts = termFrequencies[index];
+      const unique = Array.from(new Set(queryTerms));
+      if (!counts || unique.length === 0) return 0;
+
+      const length = documents[index]?.length ?? 0;
+      const lengthNorm = averageLength > 0 ? 1 - b + (b * length) / averageLength : 1;
+      let score = 0;
+      let maxIdf = 0;
+      for (const term of unique) {
+        const termIdf = idf(term);
+        maxIdf += termIdf;
+        const tf = counts.get(term) ?? 0;
+        if (tf > 0) score += (termIdf * tf * (k1 + 1)) / (tf + k1 * lengthNorm);
+      }
+      return maxIdf > 0 ? Math.min(1, score / maxIdf) : 0;
+    },
+  };
+}
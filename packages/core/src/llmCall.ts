@@ -0,0 +1,204 @@
+import type { LlmProvider } from "./llmProvider";
+
+export type LlmErrorKind =
+  "rate_limit" | "quota" | "auth" | "timeout" | "aborted" | "unavailable" | "bad_request" | "invalid_output";
+
+const RETRYABLE_KINDS = new Set<LlmErrorKind>(["rate_limit", "timeout", "unavailable"]);
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "UND_ERR_SOCKET"]);
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** A failed LLM call with a kind callers can map to a status code or a retry decision. */
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly status?: number;
+  /** Server-suggested delay from `Retry-After`, when present. */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: LlmErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "LlmError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+export interface LlmCallPolicy {
+  /** Per attempt, not for the whole call with retries. */
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_LLM_CALL_POLICY: LlmCallPolicy = {
+  timeoutMs: 60_000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  status?: unknown;
+  code?: unknown;
+  headers?: { get?: (name: string) => string | null };
+  cause?: { code?: unknown };
+}
+
+function parseRetryAfterMs(headers: ErrorLike["headers"]): number | undefined {
+  const raw = typeof headers?.get === "function" ? headers.get("retry-after") : null;
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(raw) - Date.now();
+  return Number.isFinite(ms) && ms >= 0 ? Math.min(ms, MAX_RETRY_AFTER_MS) : undefined;
+}
+
+function kindFromStatus(status: number, code: string): LlmErrorKind {
+  // OpenAI отвечает 429 и на исчерпанную квоту, но такой запрос не пройдет и после паузы.
+  if (status === 429) return code === "insufficient_quota" ? "quota" : "rate_limit";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408) return "timeout";
+  if (status >= 500) return "unavailable";
+  return "bad_request";
+}
+
+/**
+ * Maps SDK, fetch and pipeline errors onto `LlmError` by duck typing, so any
+ * OpenAI-like client works without importing its error classes.
+ */
+export function classifyLlmError(error: unknown): LlmError {
+  if (error instanceof LlmError) return error;
+
+  const e = (error ?? {}) as ErrorLike;
+  const message = e.message || "llm_call_failed";
+  const status = typeof e.status === "number" ? e.status : undefined;
+
+  if (e.name === "APIUserAbortError" || e.name === "AbortError") {
+    return new LlmError("aborted", message, { cause: error });
+  }
+  if (e.name === "APIConnectionTimeoutError" || e.name === "TimeoutError") {
+    return new LlmError("timeout", message, { cause: error });
+  }
+  if (message === "missing_api_key") {
+    return new LlmError("auth", message, { cause: error });
+  }
+  const code = typeof e.code === "string" ? e.code : typeof e.cause?.code === "string" ? e.cause.code : "";
+  if (status !== undefined) {
+    return new LlmError(kindFromStatus(status, code), message, {
+      status,
+      retryAfterMs: parseRetryAfterMs(e.headers),
+      cause: error,
+    });
+  }
+  if (e.name === "APIConnectionError" || NETWORK_ERROR_CODES.has(code)) {
+    return new LlmError("unavailable", message, { cause: error });
+  }
+  return new LlmError("bad_request", message, { cause: error });
+}
+
+function backoffDelayMs(policy: LlmCallPolicy, retry: number, error: LlmError): number {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  // Full jitter: одновременные запросы не повторяются синхронно.
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `call` with a per-attempt timeout and retries rate limits, timeouts
+ * and 5xx with exponential backoff. Cancelling `signal` stops the current
+ * attempt and any pending retry with an `aborted` error.
+ */
+export async function callWithRetry<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  options: { policy?: Partial<LlmCallPolicy>; signal?: AbortSignal; label?: string } = {},
+): Promise<T> {
+  const policy = { ...DEFAULT_LLM_CALL_POLICY, ...options.policy };
+  const label = options.label ?? "llm";
+
+  for (let retry = 0; ; retry += 1) {
+    if (options.signal?.aborted) {
+      throw new LlmError("aborted", `${label}: request aborted`, { cause: options.signal.reason });
+    }
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), policy.timeoutMs);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout.signal]) : timeout.signal;
+
+    let error: LlmError;
+    try {
+      return await call(signal);
+    } catch (caught) {
+      error = classifyLlmError(caught);
+      // SDK сообщает об отмене одинаково, причину различаем по сигналам.
+      if (options.signal?.aborted) {
+        error = new LlmError("aborted", `${label}: request aborted`, { cause: caught });
+      } else if (timeout.signal.aborted) {
+        error = new LlmError("timeout", `${label}: timed out after ${policy.timeoutMs}ms`, { cause: caught });
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!error.retryable || retry >= policy.maxRetries) {
+      throw error;
+    }
+    const delayMs = backoffDelayMs(policy, retry, error);
+    console.warn(
+      `[llm:${label}.retry]`,
+      JSON.stringify({ kind: error.kind, status: error.status, retry: retry + 1, delayMs }),
+    );
+    try {
+      await sleep(delayMs, options.signal);
+    } catch (reason) {
+      throw new LlmError("aborted", `${label}: request aborted`, { cause: reason });
+    }
+  }
+}
+
+/** Wraps every provider call in `callWithRetry`; the request signal is combined with the per-attempt timeout. */
+export function withRetries(provider: LlmProvider, policy: Partial<LlmCallPolicy> = {}): LlmProvider {
+  return {
+    name: provider.name,
+    generateText(request) {
+      return callWithRetry((signal) => provider.generateText({ ...request, signal }), {
+        policy,
+        signal: request.signal,
+        label: request.purpose,
+      });
+    },
+    embed(model, inputs, signal) {
+      return callWithRetry((attemptSignal) => provider.embed(model, inputs, attemptSignal), {
+        policy,
+        signal,
+        label: "embed",
+      });
+    },
+  };
+}
@@ -0,0 +1,21 @@
+const LLM_LOG_MAX_CHARS = 1200;
+
+export function clip(text: string, max = LLM_LOG_MAX_CHARS): string {
+  return text.length <= max ? text : `${text.slice(0, max)}...`;
+}
+
+export function logLlmInfo(event: string, payload: Record<string, unknown>): void {
+  try {
+    console.info(`[llm:${event}]`, JSON.stringify(payload));
+  } catch {
+    console.info(`[llm:${event}]`, payload);
+  }
+}
+
+export function logLlmRawResponse(event: string, response: unknown): void {
+  try {
+    console.info(`[llm:${event}.raw]`, JSON.stringify(response));
+  } catch {
+    console.info(`[llm:${event}.raw]`, response);
+  }
+}
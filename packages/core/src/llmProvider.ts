@@ -0,0 +1,81 @@
+import type { AppConfig } from "./config";
+import { withRetries } from "./llmCall";
+import { createOpenAiCompatibleProvider } from "./providers/openaiCompatible";
+import { createOpenAiProvider } from "./providers/openai";
+
+/** Strict JSON Schema for providers with a native structured-output mode. */
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface TextGenerationRequest {
+  /** Pipeline step, e.g. `topic_seeds`, `plan`, `draft`; used for logs and fakes. */
+  purpose: string;
+  model: string;
+  prompt: string;
+  maxOutputTokens: number;
+  /** Expected answer shape; providers without structured output ignore it. */
+  jsonSchema?: JsonSchemaFormat;
+  /**
+   * Sampling seed for reproducible runs; providers that support it also
+   * sample greedily, `openai` rejects it with `seed_not_supported`. Best
+   * effort: vendors do not guarantee identical output.
+   */
+  seed?: number;
+  signal?: AbortSignal;
+}
+
+/** Billed tokens of one call, as reported by the vendor. */
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TextGenerationResult {
+  text: string;
+  /** Vendor response as is, for debug logging. */
+  raw: unknown;
+  /** Absent when the backend does not report usage. */
+  usage?: LlmUsage;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  usage?: LlmUsage;
+}
+
+/** Text generation and embeddings behind one vendor-neutral interface. */
+export interface LlmProvider {
+  name: string;
+  generateText(request: TextGenerationRequest): Promise<TextGenerationResult>;
+  embed(model: string, inputs: string[], signal?: AbortSignal): Promise<EmbeddingResult>;
+}
+
+export type LlmProviderKind = "openai" | "openai-compatible";
+
+export function createLlmProvider(
+  config: Pick<
+    AppConfig,
+    "llmProvider" | "llmBaseUrl" | "llmStructuredOutput" | "llmTimeoutMs" | "llmMaxRetries" | "openaiApiKey"
+  >,
+): LlmProvider {
+  const policy = { timeoutMs: config.llmTimeoutMs, maxRetries: config.llmMaxRetries };
+  if (config.llmProvider === "openai-compatible") {
+    if (!config.llmBaseUrl) {
+      throw new Error("missing_llm_base_url");
+    }
+    return withRetries(
+      createOpenAiCompatibleProvider({
+        baseUrl: config.llmBaseUrl,
+        apiKey: config.openaiApiKey,
+        structuredOutput: config.llmStructuredOutput,
+      }),
+      policy,
+    );
+  }
+  return withRetries(
+    createOpenAiProvider({ apiKey: config.openaiApiKey, baseUrl: config.llmBaseUrl || undefined }),
+    policy,
+  );
+}
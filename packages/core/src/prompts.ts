@@ -0,0 +1,117 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export const PROMPT_LANGUAGES = ["ru", "en"] as const;
+export type PromptLanguage = (typeof PROMPT_LANGUAGES)[number];
+
+export const PROMPT_NAMES = ["topic_seeds", "plan", "draft", "repair", "theme_labels"] as const;
+export type PromptName = (typeof PROMPT_NAMES)[number];
+
+/** Templates a custom `PROMPTS_DIR` may leave out; the bundled version is used instead. */
+const BUNDLED_FALLBACK_PROMPTS: readonly PromptName[] = ["theme_labels"];
+
+/** Templates shipped with the package; `PROMPTS_DIR` points elsewhere to tune prompts without a release. */
+export const DEFAULT_PROMPTS_DIR = path.resolve(__dirname, "../prompts");
+
+const VARIABLES_FILE = "variables.json";
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/;
+const PLACEHOLDER = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export interface PromptTemplate {
+  name: PromptName;
+  language: PromptLanguage;
+  version: string;
+  /** `<language>/<name>@<version>`, stored with generated queues and drafts. */
+  id: string;
+  body: string;
+}
+
+export interface PromptSet {
+  language: PromptLanguage;
+  templates: Record<PromptName, PromptTemplate>;
+  /** Language defaults (`audience`, `topicLabel`, ...) from `variables.json`. */
+  variables: Record<string, string>;
+}
+
+export interface PromptSetOptions {
+  language?: PromptLanguage;
+  dir?: string;
+  /** Overrides for the language defaults, e.g. the audience of a particular channel. */
+  variables?: Record<string, string | undefined>;
+}
+
+export function isPromptLanguage(value: unknown): value is PromptLanguage {
+  return typeof value === "string" && (PROMPT_LANGUAGES as readonly string[]).includes(value);
+}
+
+/** Splits the `version:` front matter from the body; a template without a version is rejected. */
+export function parsePromptTemplate(raw: string, name: PromptName, language: PromptLanguage): PromptTemplate {
+  const match = raw.match(FRONT_MATTER);
+  const version = match?.[1]
+    .split(/\r?\n/)
+    .map((line) => line.match(/^version:\s*(\S+)\s*$/)?.[1])
+    .find(Boolean);
+  if (!match || !version) {
+    throw new Error(`prompt_version_missing: ${language}/${name}`);
+  }
+  const body = raw.slice(match[0].length).replace(/\s+$/, "");
+  return { name, language, version, id: `${language}/${name}@${version}`, body };
+}
+
+/**
+ * Substitutes `{{name}}` placeholders. A placeholder without a value throws
+ * instead of leaking into the prompt sent to the model.
+ */
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): string {
+  return template.body.replace(PLACEHOLDER, (_, key: string) => {
+    const value = variables[key];
+    if (value === undefined) {
+      throw new Error(`prompt_variable_missing: ${template.id} {{${key}}}`);
+    }
+    return value;
+  });
+}
+
+async function readPromptFile(dir: string, language: PromptLanguage, fileName: string): Promise<string> {
+  try {
+    return await readFile(path.join(dir, language, fileName), "utf-8");
+  } catch {
+    throw new Error(`prompt_missing: ${path.join(dir, language, fileName)}`);
+  }
+}
+
+/** Reads the templates on every call, so edited files apply to the next generation without a restart. */
+export async function loadPromptSet(options: PromptSetOptions = {}): Promise<PromptSet> {
+  const language = options.language ?? "ru";
+  const dir = options.dir ?? DEFAULT_PROMPTS_DIR;
+
+  const entries = await Promise.all(
+    PROMPT_NAMES.map(async (name) => {
+      const raw = await readPromptFile(dir, language, `${name}.txt`).catch((error: unknown) => {
+        // Каталоги, собранные до появления шаблона, продолжают работать со встроенной версией.
+        if (dir === DEFAULT_PROMPTS_DIR || !BUNDLED_FALLBACK_PROMPTS.includes(name)) throw error;
+        return readPromptFile(DEFAULT_PROMPTS_DIR, language, `${name}.txt`);
+      });
+      return [name, parsePromptTemplate(raw, name, language)] as const;
+    }),
+  );
+
+  let defaults: Record<string, string>;
+  try {
+    defaults = JSON.parse(await readPromptFile(dir, language, VARIABLES_FILE)) as Record<string, string>;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`prompt_variables_invalid: ${path.join(dir, language, VARIABLES_FILE)}`);
+    }
+    throw error;
+  }
+  const overrides = Object.fromEntries(
+    Object.entries(options.variables ?? {}).filter((entry): entry is [string, string] => !!entry[1]?.trim()),
+  );
+
+  return {
+    language,
+    templates: Object.fromEntries(entries) as Record<PromptName, PromptTemplate>,
+    variables: { ...defaults, ...overrides },
+  };
+}
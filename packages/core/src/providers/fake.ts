@@ -0,0 +1,92 @@
+import type { LlmProvider, TextGenerationRequest } from "../llmProvider";
+
+/** A fixed reply, replies consumed in order (the last one repeats), or a function of the request. */
+export type FakeResponse = string | string[] | ((request: TextGenerationRequest) => string);
+
+export interface FakeProviderOptions {
+  /** Scripted replies by request `purpose`. */
+  responses?: Record<string, FakeResponse>;
+  dimensions?: number;
+}
+
+export interface FakeLlmProvider extends LlmProvider {
+  /** Every text request, in call order. */
+  calls: TextGenerationRequest[];
+  /** Every text sent for embedding, in call order. */
+  embeddedTexts: string[];
+}
+
+const DEFAULT_DIMENSIONS = 64;
+
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i += 1) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hashed bag of words: texts sharing words get close vectors, so
+ * retrieval behaves sensibly without a model.
+ */
+export function hashEmbedding(text: string, dimensions = DEFAULT_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const token of tokens) {
+    const hash = hashToken(token);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/** Rough chars/4 token count, enough to exercise usage accounting offline. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Deterministic offline provider for tests and local runs without network. */
+export function createFakeProvider(options: FakeProviderOptions = {}): FakeLlmProvider {
+  const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+  const callsByPurpose = new Map<string, number>();
+  const calls: TextGenerationRequest[] = [];
+  const embeddedTexts: string[] = [];
+
+  return {
+    name: "fake",
+    calls,
+    embeddedTexts,
+    async generateText(request) {
+      calls.push(request);
+      const scripted = options.responses?.[request.purpose];
+      if (scripted === undefined) {
+        throw new Error(`fake_response_missing:${request.purpose}`);
+      }
+      const callIndex = callsByPurpose.get(request.purpose) ?? 0;
+      callsByPurpose.set(request.purpose, callIndex + 1);
+
+      let text: string;
+      if (typeof scripted === "function") {
+        text = scripted(request);
+      } else if (Array.isArray(scripted)) {
+        text = scripted[Math.min(callIndex, scripted.length - 1)] ?? "";
+      } else {
+        text = scripted;
+      }
+      return {
+        text,
+        raw: { provider: "fake", purpose: request.purpose, text },
+        usage: { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) },
+      };
+    },
+    async embed(_model, inputs) {
+      embeddedTexts.push(...inputs);
+      return {
+        embeddings: inputs.map((input) => hashEmbedding(input, dimensions)),
+        usage: { inputTokens: inputs.reduce((sum, input) => sum + estimateTokens(input), 0), outputTokens: 0 },
+      };
+    },
+  };
+}
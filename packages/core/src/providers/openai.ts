@@ -0,0 +1,70 @@
+import OpenAI from "openai";
+import type { LlmProvider } from "../llmProvider";
+
+export interface OpenAiProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+/** OpenAI Responses API for text, embeddings API for vectors. */
+export function createOpenAiProvider(options: OpenAiProviderOptions): LlmProvider {
+  let client: OpenAI | null = null;
+  // Клиент создается лениво: без ключа провайдер существует, но падает на первом вызове.
+  const getClient = (): OpenAI => {
+    if (!options.apiKey) {
+      throw new Error("missing_api_key");
+    }
+    // Повторы и таймауты делает withRetries, у SDK свои отключены.
+    client ??= new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl, maxRetries: 0 });
+    return client;
+  };
+
+  return {
+    name: "openai",
+    async generateText(request) {
+      // У Responses API нет seed: лучше отказать, чем выдать прогон за воспроизводимый.
+      if (request.seed !== undefined) {
+        throw new Error("seed_not_supported");
+      }
+      const response = await getClient().responses.create(
+        {
+          model: request.model,
+          input: request.prompt,
+          max_output_tokens: request.maxOutputTokens,
+          // reasoning-модели не принимают temperature.
+          reasoning: { effort: "minimal" },
+          ...(request.jsonSchema
+            ? {
+                text: {
+                  format: {
+                    type: "json_schema" as const,
+                    name: request.jsonSchema.name,
+                    schema: request.jsonSchema.schema,
+                    strict: true,
+                  },
+                },
+              }
+            : {}),
+        },
+        { signal: request.signal },
+      );
+      return {
+        text: response.output_text ?? "",
+        raw: response,
+        usage: response.usage
+          ? { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+          : undefined,
+      };
+    },
+    async embed(model, inputs, signal) {
+      if (inputs.length === 0) {
+        return { embeddings: [] };
+      }
+      const res = await getClient().embeddings.create({ model, input: inputs }, { signal });
+      return {
+        embeddings: res.data.map((item) => item.embedding),
+        usage: res.usage ? { inputTokens: res.usage.prompt_tokens, outputTokens: 0 } : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import OpenAI from "openai";
+import type { LlmProvider } from "../llmProvider";
+
+export interface OpenAiCompatibleProviderOptions {
+  /** Base URL of the `/v1` API, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Send `response_format: json_schema`; only some servers support it, so it is opt-in. */
+  structuredOutput?: boolean;
+}
+
+/**
+ * Local or self-hosted servers (Ollama, vLLM, LM Studio) implementing the
+ * OpenAI Chat Completions and Embeddings endpoints. The Responses API and
+ * reasoning settings are not assumed to exist there.
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleProviderOptions): LlmProvider {
+  // Локальные серверы обычно не проверяют ключ, но SDK требует непустой.
+  const client = new OpenAI({ apiKey: options.apiKey || "local", baseURL: options.baseUrl, maxRetries: 0 });
+
+  return {
+    name: "openai-compatible",
+    async generateText(request) {
+      const response = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: [{ role: "user", content: request.prompt }],
+          max_tokens: request.maxOutputTokens,
+          ...(request.seed !== undefined ? { seed: request.seed, temperature: 0 } : {}),
+          ...(options.structuredOutput && request.jsonSchema
+            ? {
+                response_format: {
+                  type: "json_schema" as const,
+                  json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: true },
+                },
+              }
+            : {}),
+        },
+        { signal: request.signal },
+      );
+      return {
+        text: response.choices[0]?.message?.content ?? "",
+        raw: response,
+        usage: response.usage
+          ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+          : undefined,
+      };
+    },
+    async embed(model, inputs, signal) {
+      if (inputs.length === 0) {
+        return { embeddings: [] };
+      }
+      const res = await client.embeddings.create({ model, input: inputs }, { signal });
+      return {
+        embeddings: res.data.map((item) => item.embedding),
+        // Локальные серверы часто не считают токены эмбеддингов.
+        usage: res.usage ? { inputTokens: res.usage.prompt_tokens, outputTokens: 0 } : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,169 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { decodeEmbedding, embeddingTextHash, encodeEmbedding } from "../embeddingStore";
+import type { LlmProvider, TextGenerationRequest } from "../llmProvider";
+
+const FIXTURE_FORMAT_VERSION = 1;
+const STALE_CONTEXT_CHARS = 60;
+
+export type ReplayMode = "replay" | "record";
+
+export interface RecordedTextCall {
+  purpose: string;
+  model: string;
+  maxOutputTokens: number;
+  promptSha256: string;
+  /** Kept verbatim so a stale fixture can point at the changed part of the prompt. */
+  prompt: string;
+  response: string;
+}
+
+export interface LlmFixtureFile {
+  version: number;
+  /** Name of the provider the fixture was recorded with. */
+  recordedWith: string;
+  texts: RecordedTextCall[];
+  /** model -> embeddingTextHash(input) -> base64 Float32 vector. */
+  embeddings: Record<string, Record<string, string>>;
+}
+
+export interface ReplayProviderOptions {
+  fixtureFile: string;
+  mode?: ReplayMode;
+  /** Real provider to record from; required in `record` mode. */
+  provider?: LlmProvider;
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function describePromptChange(recorded: string, actual: string): string {
+  let index = 0;
+  while (index < recorded.length && index < actual.length && recorded[index] === actual[index]) {
+    index += 1;
+  }
+  const slice = (text: string) => JSON.stringify(text.slice(index, index + STALE_CONTEXT_CHARS));
+  return `first difference at char ${index}: recorded ${slice(recorded)}, now ${slice(actual)}`;
+}
+
+function emptyFixture(recordedWith: string): LlmFixtureFile {
+  return { version: FIXTURE_FORMAT_VERSION, recordedWith, texts: [], embeddings: {} };
+}
+
+async function readFixture(fixtureFile: string): Promise<LlmFixtureFile> {
+  let raw: string;
+  try {
+    raw = await readFile(fixtureFile, "utf-8");
+  } catch {
+    throw new Error(`llm_fixture_missing: ${fixtureFile}; record it with LLM_FIXTURES=record`);
+  }
+  const parsed = JSON.parse(raw) as Partial<LlmFixtureFile>;
+  if (parsed.version !== FIXTURE_FORMAT_VERSION || !Array.isArray(parsed.texts) || !parsed.embeddings) {
+    throw new Error(`llm_fixture_invalid: ${fixtureFile}`);
+  }
+  return parsed as LlmFixtureFile;
+}
+
+/**
+ * Records provider calls into a JSON fixture, or replays them without network.
+ * Replay never falls through to a real provider: a prompt or embedding input
+ * that is not in the fixture fails the call with `llm_fixture_stale`, so
+ * fixtures cannot silently drift from the code that builds the prompts.
+ */
+export function createReplayProvider(options: ReplayProviderOptions): LlmProvider {
+  const mode = options.mode ?? "replay";
+  const inner = options.provider;
+  if (mode === "record" && !inner) {
+    throw new Error("llm_fixture_record_requires_provider");
+  }
+
+  // В режиме записи фикстура пишется заново, чтобы в ней не оставались устаревшие вызовы.
+  let fixture: Promise<LlmFixtureFile> | null = null;
+  const loadFixture = (): Promise<LlmFixtureFile> =>
+    (fixture ??=
+      mode === "record" ? Promise.resolve(emptyFixture(inner?.name ?? "unknown")) : readFixture(options.fixtureFile));
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const persist = (data: LlmFixtureFile): Promise<void> => {
+    pendingWrite = pendingWrite.then(async () => {
+      await mkdir(path.dirname(options.fixtureFile), { recursive: true });
+      const tmpPath = `${options.fixtureFile}.${process.pid}.tmp`;
+      await writeFile(tmpPath, `${JSON.stringify(data, null, 2)}\n`, "utf-8");
+      await rename(tmpPath, options.fixtureFile);
+    });
+    return pendingWrite;
+  };
+
+  const replayText = (data: LlmFixtureFile, request: TextGenerationRequest): string => {
+    const promptSha256 = sha256(request.prompt);
+    const match = data.texts.find(
+      (call) => call.purpose === request.purpose && call.model === request.model && call.promptSha256 === promptSha256,
+    );
+    if (match) return match.response;
+
+    const samePurpose = data.texts.find((call) => call.purpose === request.purpose);
+    const reason = samePurpose
+      ? samePurpose.model !== request.model
+        ? `model changed from ${samePurpose.model} to ${request.model}`
+        : `prompt changed, ${describePromptChange(samePurpose.prompt, request.prompt)}`
+      : "no recorded call for this step";
+    throw new Error(
+      `llm_fixture_stale: ${request.purpose} in ${options.fixtureFile}: ${reason}; re-record with LLM_FIXTURES=record`,
+    );
+  };
+
+  return {
+    name: mode === "record" ? `record:${inner?.name}` : "replay",
+    async generateText(request) {
+      const data = await loadFixture();
+      if (mode === "replay") {
+        const text = replayText(data, request);
+        return { text, raw: { provider: "replay", purpose: request.purpose, text } };
+      }
+
+      const result = await (inner as LlmProvider).generateText(request);
+      data.texts = data.texts.filter(
+        (call) => !(call.purpose === request.purpose && call.promptSha256 === sha256(request.prompt)),
+      );
+      data.texts.push({
+        purpose: request.purpose,
+        model: request.model,
+        maxOutputTokens: request.maxOutputTokens,
+        promptSha256: sha256(request.prompt),
+        prompt: request.prompt,
+        response: result.text,
+      });
+      await persist(data);
+      return result;
+    },
+    async embed(model, inputs, signal) {
+      const data = await loadFixture();
+      if (mode === "replay") {
+        const recorded = data.embeddings[model] ?? {};
+        const embeddings = inputs.map((input) => {
+          const encoded = recorded[embeddingTextHash(input)];
+          if (!encoded) {
+            throw new Error(
+              `llm_fixture_stale: no recorded ${model} embedding for ${JSON.stringify(input.slice(0, STALE_CONTEXT_CHARS))} in ${options.fixtureFile}; re-record with LLM_FIXTURES=record`,
+            );
+          }
+          return decodeEmbedding(encoded);
+        });
+        return { embeddings };
+      }
+
+      const result = await (inner as LlmProvider).embed(model, inputs, signal);
+      const recorded = (data.embeddings[model] ??= {});
+      const encoded = result.embeddings.map((embedding) => encodeEmbedding(embedding));
+      inputs.forEach((input, index) => {
+        recorded[embeddingTextHash(input)] = encoded[index] ?? encodeEmbedding([]);
+      });
+      await persist(data);
+      // Отдаем те же float32-векторы, что попадут в фикстуру, иначе запись и
+      // воспроизведение могут по-разному упорядочить почти равные оценки.
+      return { embeddings: encoded.map(decodeEmbedding), usage: result.usage };
+    },
+  };
+}
@@ -1,48 +1,103 @@
-import OpenAI from "openai";
+import { postKey } from "./dedup";
+import { embedWithStore, type EmbeddingStore } from "./embeddingStore";
+import { createEngagementScorer, getReactionTotal, getViewCount } from "./engagement";
+import type { ContentGap } from "./gaps";
 import type { IndexedPost } from "./history";
+import { withRetries } from "./llmCall";
+import { logLlmInfo } from "./llmLog";
+import type { LlmProvider } from "./llmProvider";
 import type { PlanItem } from "./planner";
+import { loadPromptSet, renderPrompt, type PromptSet } from "./prompts";
+import { createOpenAiProvider } from "./providers/openai";
+import {
+  cosineSimilarity,
+  createRetriever,
+  type ChannelKindWeights,
+  type RetrievalFilters,
+  type RetrievalWeights,
+} from "./retriever";
+import { generateStructured, type JsonSchema, type StructuredCheck } from "./structuredOutput";
+import { dedupeTopics, type TopicCollision, type TopicReference } from "./topicDedup";
+import { withUsageTracking, type UsageListener } from "./usage";
 
 const MAX_RETRIEVAL_POSTS = 1200;
 const MAX_SEED_SOURCE_POSTS = 120;
 const TOPIC_SEED_COUNT = 10;
-const LLM_LOG_MAX_CHARS = 1200;
-
-interface RagOptions {
-  apiKey: string;
+/** Plan requests per run: the first one, then re-asks while repeats leave fewer than ten topics. */
+const MAX_PLAN_ATTEMPTS = 2;
+const DEFAULT_MMR_LAMBDA = 0.7;
+const DEFAULT_RECENT_OWN_POSTS = 30;
+
+export interface RagOptions {
+  /** Used for the default OpenAI provider when `provider` is not set. */
+  apiKey?: string;
+  provider?: LlmProvider;
   model: string;
   embeddingModel: string;
   topK: number;
-  avoidTopics?: string[];
+  /** Topics of earlier queues; plan items repeating them are dropped. */
+  previousTopics?: PreviousTopic[];
+  /** Similarity of topic embeddings at which a topic counts as a repeat, 0..1 (default 0.85). */
+  topicDedupThreshold?: number;
+  /** How many of the latest own-channel posts new topics must not repeat (default 30). */
+  recentOwnPosts?: number;
+  /**
+   * Content gaps (see `findContentGaps`): their example competitor posts lead
+   * the topic seed evidence, marked with the gap label.
+   */
+  gaps?: ContentGap[];
+  embeddingStore?: EmbeddingStore;
+  /** Multipliers for seed and retrieval scores; 0 excludes the kind from planning. */
+  kindWeights?: Partial<ChannelKindWeights>;
+  retrievalWeights?: Partial<RetrievalWeights>;
+  /** Restricts the posts retrieved as evidence for each topic. */
+  retrievalFilters?: RetrievalFilters;
+  /** Relevance/diversity trade-off of the evidence per topic, 0..1 (default 0.7). */
+  mmrLambda?: number;
+  /** Sampling seed passed to every text generation call. */
+  seed?: number;
+  /** ISO time post recency is measured from; now when omitted. Fixed to replay a seeded run. */
+  referenceTime?: string;
+  /** Cancels pending LLM calls, e.g. when the HTTP client disconnects. */
+  signal?: AbortSignal;
+  /** Receives token usage of every LLM call made by this run. */
+  onUsage?: UsageListener;
+  /** Templates and variables; the bundled Russian set when omitted. */
+  prompts?: PromptSet;
 }
 
+const DEFAULT_KIND_WEIGHTS: ChannelKindWeights = { own: 1, similar: 1 };
+
 interface RetrievedContext {
   topic: string;
   sources: IndexedPost[];
 }
 
-export interface RagPlanResult {
-  plan: PlanItem[];
-  topicSeeds: string[];
+/** A generated plan item with its topic embedding, as `dedupeTopics` takes it. */
+interface PlanEntry {
+  item: PlanItem;
+  topic: string;
+  embedding: number[];
 }
 
-function clip(text: string, max = LLM_LOG_MAX_CHARS): string {
-  return text.length <= max ? text : `${text.slice(0, max)}...`;
+export interface PreviousTopic {
+  topic: string;
+  queueId?: string;
+  rank?: number;
 }
 
-function logLlmInfo(event: string, payload: Record<string, unknown>): void {
-  try {
-    console.info(`[llm:${event}]`, JSON.stringify(payload));
-  } catch {
-    console.info(`[llm:${event}]`, payload);
-  }
+export interface RejectedTopic {
+  item: PlanItem;
+  collidesWith: TopicCollision;
 }
 
-function logLlmRawResponse(event: string, response: unknown): void {
-  try {
-    console.info(`[llm:${event}.raw]`, JSON.stringify(response));
-  } catch {
-    console.info(`[llm:${event}.raw]`, response);
-  }
+export interface RagPlanResult {
+  plan: PlanItem[];
+  /** Plan items dropped as near-duplicates, with the item each one repeats. */
+  rejectedTopics: RejectedTopic[];
+  topicSeeds: string[];
+  /** Template ids by step, e.g. `{ topic_seeds: "ru/topic_seeds@1", plan: "ru/plan@1" }`. */
+  promptVersions: Record<string, string>;
 }
 
 function normalize(text: string): string {
@@ -54,78 +109,50 @@ function truncate(text: string, max = 420): string {
   return clean.length <= max ? clean : `${clean.slice(0, max)}...`;
 }
 
-function dot(a: number[], b: number[]): number {
-  let sum = 0;
-  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
-  return sum;
-}
-
-function norm(a: number[]): number {
-  return Math.sqrt(dot(a, a));
-}
-
-function cosineSimilarity(a: number[], b: number[]): number {
-  const denom = norm(a) * norm(b);
-  if (denom === 0) return 0;
-  return dot(a, b) / denom;
-}
-
-async function embedTexts(client: OpenAI, model: string, inputs: string[]): Promise<number[][]> {
-  const res = await client.embeddings.create({
-    model,
-    input: inputs,
-  });
-  return res.data.map((item) => item.embedding);
-}
-
-function retrieveForTopic(
-  topicEmbedding: number[],
-  posts: IndexedPost[],
-  postEmbeddings: number[][],
-  topK: number,
-): IndexedPost[] {
-  const ranked = posts
-    .map((post, idx) => ({
-      post,
-      score: cosineSimilarity(topicEmbedding, postEmbeddings[idx] ?? []),
-    }))
-    .sort((a, b) => b.score - a.score);
-
-  const diversityPool = Math.min(ranked.length, Math.max(topK * 3, topK));
-  const pool = ranked.slice(0, diversityPool);
-  const shuffled = pool.sort(() => Math.random() - 0.5);
-
-  return shuffled.slice(0, topK).map((entry) => entry.post);
-}
-
-function normalizeTopic(text: string): string {
-  return text.toLowerCase().replace(/\s+/g, " ").trim();
+function resolveKindWeights(weights: Partial<ChannelKindWeights> | undefined): ChannelKindWeights {
+  return { ...DEFAULT_KIND_WEIGHTS, ...weights };
 }
 
-function computeRecencyScore(publishedAt: string): number {
+function computeRecencyScore(publishedAt: string, nowMs: number): number {
   const ts = Date.parse(publishedAt);
   if (Number.isNaN(ts)) return 0;
-  const ageDays = (Date.now() - ts) / (1000 * 60 * 60 * 24);
+  const ageDays = (nowMs - ts) / (1000 * 60 * 60 * 24);
   const windowDays = 730;
   return Math.max(0, 1 - ageDays / windowDays);
 }
 
-function computeEngagementScore(post: IndexedPost, maxLogReactions: number): number {
-  const reactions = post.metrics?.reactions ?? 0;
-  if (maxLogReactions <= 0) return 0;
-  return Math.log1p(Math.max(0, reactions)) / maxLogReactions;
+interface SeedCandidate {
+  post: IndexedPost;
+  /** Label of the content gap the post is an example of. */
+  gapLabel?: string;
+}
+
+/** Example posts of `gaps` found in `posts`, in gap order, each post once. */
+function pickGapCandidates(posts: IndexedPost[], gaps: ContentGap[] | undefined): SeedCandidate[] {
+  const byKey = new Map(posts.map((post) => [postKey(post), post]));
+  const seen = new Set<string>();
+  const candidates: SeedCandidate[] = [];
+  for (const gap of gaps ?? []) {
+    for (const example of gap.examples) {
+      const key = postKey(example);
+      const post = byKey.get(key);
+      if (!post || seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({ post, gapLabel: gap.label });
+    }
+  }
+  return candidates;
 }
 
-function pickSeedCandidates(posts: IndexedPost[]): IndexedPost[] {
+function pickSeedCandidates(posts: IndexedPost[], kindWeights: ChannelKindWeights, nowMs: number): IndexedPost[] {
   const candidatePool = posts.slice(0, Math.min(posts.length, MAX_RETRIEVAL_POSTS));
-  const maxReactions = candidatePool.reduce((max, post) => Math.max(max, post.metrics?.reactions ?? 0), 0);
-  const maxLogReactions = Math.log1p(maxReactions);
+  const computeEngagementScore = createEngagementScorer(candidatePool);
 
   return candidatePool
     .map((post) => {
-      const recency = computeRecencyScore(post.published_at);
-      const engagement = computeEngagementScore(post, maxLogReactions);
-      const score = recency * 0.55 + engagement * 0.45;
+      const recency = computeRecencyScore(post.published_at, nowMs);
+      const engagement = computeEngagementScore(post);
+      const score = (recency * 0.55 + engagement * 0.45) * kindWeights[post.kind];
       return { post, score };
     })
     .sort((a, b) => b.score - a.score)
@@ -133,229 +160,328 @@ function pickSeedCandidates(posts: IndexedPost[]): IndexedPost[] {
     .map((entry) => entry.post);
 }
 
-function parseTopicSeeds(raw: string): string[] | null {
-  const start = raw.indexOf("[");
-  const end = raw.lastIndexOf("]");
-  if (start === -1 || end === -1 || end <= start) return null;
-  try {
-    const parsed = JSON.parse(raw.slice(start, end + 1)) as unknown;
-    if (!Array.isArray(parsed)) return null;
-    const unique = new Set<string>();
-    for (const item of parsed) {
-      if (typeof item !== "string") continue;
-      const normalized = item.trim();
-      if (!normalized) continue;
-      unique.add(normalized);
-      if (unique.size >= TOPIC_SEED_COUNT) break;
-    }
-    return unique.size === TOPIC_SEED_COUNT ? Array.from(unique) : null;
-  } catch {
-    return null;
+const TOPIC_SEEDS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: { type: "string", minLength: 1 },
+  minItems: TOPIC_SEED_COUNT,
+};
+
+const PLAN_SCHEMA: JsonSchema = {
+  type: "array",
+  minItems: TOPIC_SEED_COUNT,
+  items: {
+    type: "object",
+    properties: {
+      topic: { type: "string", minLength: 1 },
+      objective: { type: "string", enum: ["engagement", "storytelling", "promotion"] },
+      tone: { type: "string", enum: ["inspiring", "casual", "adventure"] },
+      cta: { type: "string" },
+      sourcePostIds: { type: "array", items: { type: "string" } },
+    },
+    required: ["topic", "objective", "tone", "cta"],
+  },
+};
+
+function finalizeTopicSeeds(value: unknown): StructuredCheck<string[]> {
+  const unique = new Set<string>();
+  for (const item of value as string[]) {
+    unique.add(item.trim());
+    if (unique.size >= TOPIC_SEED_COUNT) break;
   }
+  if (unique.size < TOPIC_SEED_COUNT) {
+    return {
+      issues: [{ path: "$", message: `expected ${TOPIC_SEED_COUNT} unique topics, got ${unique.size}` }],
+    };
+  }
+  return { value: Array.from(unique) };
+}
+
+type PlanItemPayload = Omit<PlanItem, "rank" | "sourcePostIds"> & { sourcePostIds?: string[] | null };
+
+function finalizePlan(value: unknown): StructuredCheck<PlanItem[]> {
+  // Лишние темы не обрезаются: они заменят отброшенные как повторы.
+  const items = value as PlanItemPayload[];
+  return {
+    value: items.map((item, index) => ({
+      rank: index + 1,
+      topic: item.topic.trim(),
+      objective: item.objective,
+      tone: item.tone,
+      cta: item.cta.trim(),
+      sourcePostIds: item.sourcePostIds ?? [],
+    })),
+  };
 }
 
-async function deriveTopicSeedsFromHistory(client: OpenAI, model: string, posts: IndexedPost[]): Promise<string[]> {
-  const seedCandidates = pickSeedCandidates(posts);
+async function deriveTopicSeedsFromHistory(
+  provider: LlmProvider,
+  model: string,
+  posts: IndexedPost[],
+  kindWeights: ChannelKindWeights,
+  prompts: PromptSet,
+  signal?: AbortSignal,
+  seed?: number,
+  gapCandidates: SeedCandidate[] = [],
+  nowMs = Date.now(),
+): Promise<string[]> {
+  const gapKeys = new Set(gapCandidates.map((candidate) => postKey(candidate.post)));
+  const seedCandidates = [
+    ...gapCandidates,
+    ...pickSeedCandidates(posts, kindWeights, nowMs)
+      .filter((post) => !gapKeys.has(postKey(post)))
+      .map((post): SeedCandidate => ({ post })),
+  ].slice(0, MAX_SEED_SOURCE_POSTS);
   if (seedCandidates.length === 0) {
     throw new Error("seed_candidates_empty");
   }
 
   const evidence = seedCandidates
-    .map((post) => {
-      const reactions = post.metrics?.reactions ?? 0;
-      return `- date=${post.published_at}; reactions=${reactions}; text="${truncate(post.text, 220)}"`;
+    .map(({ post, gapLabel }) => {
+      const reactions = getReactionTotal(post);
+      const views = getViewCount(post);
+      const viewsPart = views !== undefined ? `; views=${views}` : "";
+      const gapPart = gapLabel ? `${prompts.variables.gapLabel ?? "Gap"}="${gapLabel}"; ` : "";
+      return `- ${gapPart}date=${post.published_at}; reactions=${reactions}${viewsPart}; text="${truncate(post.text, 220)}"`;
     })
     .join("\n");
 
-  const prompt = [
-    "Сформируй РОВНО 10 тем для следующих постов Telegram-канала про яхтинг.",
-    "Ориентируйся на более свежие и более вовлекающие посты из контекста.",
-    "Темы должны быть разнообразными, без дублей, короткими (до 12 слов).",
-    "Приоритет: базовые и понятные темы для новичков и людей, которые только думают о первом яхтенном путешествии.",
-    "Можно добавлять общетуристические темы вокруг морских поездок: подготовка, бюджет, безопасность, быт, маршрут.",
-    "Избегай узкопрофессиональных и нишевых тем для продвинутых капитанов.",
-    "Избегай тем, завязанных на конкретных людях, их личных историях и неизвестных именах.",
-    "КРИТИЧНО: верни только JSON-массив из 10 строк.",
-    "Нельзя добавлять markdown, пояснения, нумерацию, код-блоки или любой текст вне JSON.",
-    'Формат ответа строго такой: ["тема 1","тема 2",...,"тема 10"]',
-    "Перед ответом проверь, что элементов ровно 10 и они уникальны.",
-    "",
-    "Контекст постов:",
-    evidence,
-  ].join("\n");
+  const prompt = renderPrompt(prompts.templates.topic_seeds, { ...prompts.variables, evidence });
 
   logLlmInfo("topic_seeds.request", {
     model,
     promptChars: prompt.length,
     candidates: seedCandidates.length,
+    gapCandidates: gapCandidates.length,
   });
 
-  const response = await client.responses.create({
-    model,
-    input: prompt,
-    max_output_tokens: 1200,
-    reasoning: { effort: "minimal" },
-  });
-  logLlmRawResponse("topic_seeds.response", response);
-
-  const outputText = response.output_text ?? "";
-  logLlmInfo("topic_seeds.response", {
+  const parsed = await generateStructured(provider, {
+    purpose: "topic_seeds",
     model,
-    outputChars: outputText.length,
-    outputPreview: clip(outputText),
+    prompt,
+    maxOutputTokens: 1200,
+    schemaName: "topic_seeds",
+    schema: TOPIC_SEEDS_SCHEMA,
+    finalize: finalizeTopicSeeds,
+    errorCode: "invalid_topic_seeds",
+    repairTemplate: prompts.templates.repair,
+    seed,
+    signal,
   });
-
-  const parsed = parseTopicSeeds(outputText);
-  if (!parsed) {
-    logLlmInfo("topic_seeds.parse_error", {
-      reason: "invalid_topic_seeds",
-      outputPreview: clip(outputText),
-    });
-    throw new Error("invalid_topic_seeds");
-  }
   logLlmInfo("topic_seeds.parsed", { count: parsed.length, topics: parsed });
   return parsed;
 }
 
-function parsePlanResponse(raw: string): PlanItem[] | null {
-  const start = raw.indexOf("[");
-  const end = raw.lastIndexOf("]");
-  if (start === -1 || end === -1 || end <= start) return null;
-
-  try {
-    const parsed = JSON.parse(raw.slice(start, end + 1)) as Array<Partial<PlanItem>>;
-    if (!Array.isArray(parsed) || parsed.length < TOPIC_SEED_COUNT) return null;
-
-    const normalized = parsed.slice(0, TOPIC_SEED_COUNT).map((item, index) => {
-      if (
-        typeof item.topic !== "string" ||
-        (item.objective !== "engagement" && item.objective !== "storytelling" && item.objective !== "promotion") ||
-        (item.tone !== "inspiring" && item.tone !== "casual" && item.tone !== "adventure") ||
-        typeof item.cta !== "string"
-      ) {
-        throw new Error("invalid_plan_item");
-      }
-
-      return {
-        rank: index + 1,
-        topic: item.topic.trim(),
-        objective: item.objective,
-        tone: item.tone,
-        cta: item.cta.trim(),
-        sourcePostIds: Array.isArray(item.sourcePostIds)
-          ? item.sourcePostIds.filter((id): id is string => typeof id === "string")
-          : [],
-      } as PlanItem;
-    });
+/**
+ * What plan topics must not repeat: topics of previous queues and the latest
+ * own posts. Embeds them with one call, reusing `embeddedPosts`.
+ */
+async function loadTopicReferences(
+  provider: LlmProvider,
+  posts: IndexedPost[],
+  embeddedPosts: Map<IndexedPost, number[]>,
+  options: RagOptions,
+): Promise<TopicReference[]> {
+  const previousTopics = options.previousTopics ?? [];
+  const recentOwnPosts = posts
+    .filter((post) => post.kind === "own")
+    .slice(0, options.recentOwnPosts ?? DEFAULT_RECENT_OWN_POSTS);
+  const unembeddedPosts = recentOwnPosts.filter((post) => !embeddedPosts.has(post));
+
+  // Один вызов на все тексты: темы прошлых очередей и свои посты без эмбеддинга.
+  const texts = [
+    ...previousTopics.map((previous) => previous.topic),
+    ...unembeddedPosts.map((post) => truncate(post.text, 900)),
+  ];
+  const embeddings = await embedWithStore(options.embeddingStore, texts, async (inputs) =>
+    (await provider.embed(options.embeddingModel, inputs, options.signal)).embeddings,
+  );
+  unembeddedPosts.forEach((post, index) => {
+    embeddedPosts.set(post, embeddings[previousTopics.length + index] ?? []);
+  });
 
-    return normalized;
-  } catch {
-    return null;
-  }
+  return [
+    ...previousTopics.map((previous, index) => ({
+      kind: "previous_queue" as const,
+      text: previous.topic,
+      embedding: embeddings[index] ?? [],
+      queueId: previous.queueId,
+      rank: previous.rank,
+    })),
+    ...recentOwnPosts.map((post) => ({
+      kind: "own_post" as const,
+      text: truncate(post.text, 260),
+      embedding: embeddedPosts.get(post) ?? [],
+      postId: post.id,
+    })),
+  ];
 }
 
-function applyTopicAvoidanceStrict(plan: PlanItem[], avoidTopics: string[] | undefined): PlanItem[] {
-  if (!avoidTopics || avoidTopics.length === 0) return plan;
-
-  const avoidSet = new Set(avoidTopics.map(normalizeTopic));
-  const filtered = plan.filter((item) => !avoidSet.has(normalizeTopic(item.topic)));
-  if (filtered.length < TOPIC_SEED_COUNT) {
-    throw new Error("insufficient_unique_topics_after_avoidance");
-  }
-  return filtered.slice(0, TOPIC_SEED_COUNT).map((item, index) => ({ ...item, rank: index + 1 }));
+/** Retrieved context of the topic seed closest to `embedding`; an unchanged seed topic gets its own. */
+function closestContext(
+  embedding: number[],
+  contexts: RetrievedContext[],
+  seedEmbeddings: number[][],
+): RetrievedContext | undefined {
+  let best: { context: RetrievedContext; similarity: number } | undefined;
+  contexts.forEach((context, index) => {
+    const similarity = cosineSimilarity(embedding, seedEmbeddings[index] ?? []);
+    if (!best || similarity > best.similarity) best = { context, similarity };
+  });
+  return best?.context;
 }
 
 export async function buildNext10PlanRag(posts: IndexedPost[], options: RagOptions): Promise<RagPlanResult> {
-  if (!options.apiKey) {
+  if (!options.provider && !options.apiKey) {
     throw new Error("missing_api_key");
   }
   if (posts.length === 0) {
     throw new Error("empty_posts");
   }
 
-  const client = new OpenAI({ apiKey: options.apiKey });
-  const topicSeeds = await deriveTopicSeedsFromHistory(client, options.model, posts);
+  const kindWeights = resolveKindWeights(options.kindWeights);
+  const planningPosts = posts.filter((post) => kindWeights[post.kind] > 0);
+  if (planningPosts.length === 0) {
+    throw new Error("empty_posts");
+  }
+  const nowMs = options.referenceTime === undefined ? Date.now() : Date.parse(options.referenceTime);
+  if (Number.isNaN(nowMs)) {
+    throw new Error("invalid_reference_time");
+  }
 
-  const candidatePosts = posts.slice(0, MAX_RETRIEVAL_POSTS);
+  const baseProvider = options.provider ?? withRetries(createOpenAiProvider({ apiKey: options.apiKey ?? "" }));
+  const provider = options.onUsage ? withUsageTracking(baseProvider, options.onUsage) : baseProvider;
+  const prompts = options.prompts ?? (await loadPromptSet());
+  const topicSeeds = await deriveTopicSeedsFromHistory(
+    provider,
+    options.model,
+    planningPosts,
+    kindWeights,
+    prompts,
+    options.signal,
+    options.seed,
+    pickGapCandidates(planningPosts, options.gaps),
+    nowMs,
+  );
+
+  const candidatePosts = planningPosts.slice(0, MAX_RETRIEVAL_POSTS);
   const postTexts = candidatePosts.map((post) => truncate(post.text, 900));
   const [topicEmbeddings, postEmbeddings] = await Promise.all([
-    embedTexts(client, options.embeddingModel, topicSeeds),
-    embedTexts(client, options.embeddingModel, postTexts),
+    provider.embed(options.embeddingModel, topicSeeds, options.signal).then((result) => result.embeddings),
+    embedWithStore(options.embeddingStore, postTexts, async (texts) =>
+      (await provider.embed(options.embeddingModel, texts, options.signal)).embeddings,
+    ),
   ]);
 
+  const retriever = createRetriever(candidatePosts, postEmbeddings, {
+    weights: options.retrievalWeights,
+    kindWeights,
+    filters: options.retrievalFilters,
+  });
   const contexts: RetrievedContext[] = topicSeeds.map((topic, index) => ({
     topic,
-    sources: retrieveForTopic(topicEmbeddings[index] ?? [], candidatePosts, postEmbeddings, options.topK),
+    sources: retriever
+      .retrieve({
+        text: topic,
+        embedding: topicEmbeddings[index] ?? [],
+        topK: options.topK,
+        mmrLambda: options.mmrLambda ?? DEFAULT_MMR_LAMBDA,
+      })
+      .map((entry) => entry.post),
   }));
 
   const evidence = contexts
     .map((ctx, idx) => {
       const lines = ctx.sources.map(
-        (post) => `- id=${post.id}; channel=${post.channel}; text="${truncate(post.text, 260)}"`,
+        (post) => `- id=${post.id}; channel=${post.channel}; kind=${post.kind}; text="${truncate(post.text, 260)}"`,
       );
-      return `Тема ${idx + 1}: ${ctx.topic}\n${lines.join("\n")}`;
+      return `${prompts.variables.topicLabel ?? "Topic"} ${idx + 1}: ${ctx.topic}\n${lines.join("\n")}`;
     })
     .join("\n\n");
 
-  const prompt = [
-    "Сформируй план из 10 постов для Telegram-канала про яхтинг.",
-    "Используй только приведенный контекст.",
-    "Целевая аудитория: новички в яхтинге и люди, которым интересны морские путешествия без спецподготовки.",
-    "Выбирай в первую очередь простые, прикладные и туристические темы.",
-    "Избегай узкоспециализированного капитанского контента и персональных историй конкретных людей.",
-    "Формулируй темы так, чтобы их понимали без яхтенного опыта.",
-    "Ответ строго JSON-массив из 10 объектов формата:",
-    '[{"topic":"...","objective":"engagement|storytelling|promotion","tone":"inspiring|casual|adventure","cta":"...","sourcePostIds":["..."]}]',
-    "Не добавляй markdown и комментарии.",
-    "",
-    "Контекст:",
-    evidence,
-  ].join("\n");
-
-  logLlmInfo("plan.request", {
-    model: options.model,
-    embeddingModel: options.embeddingModel,
-    promptChars: prompt.length,
-    topicSeedsCount: topicSeeds.length,
-    candidatePosts: candidatePosts.length,
-  });
-
-  const response = await client.responses.create({
-    model: options.model,
-    input: prompt,
-    max_output_tokens: 2200,
-    reasoning: { effort: "minimal" },
-  });
-  logLlmRawResponse("plan.response", response);
+  const embeddedPosts = new Map(candidatePosts.map((post, index) => [post, postEmbeddings[index] ?? []]));
+  const requestPlan = async (avoided: PlanItem[], attempt: number): Promise<PlanEntry[]> => {
+    const avoidTopics =
+      avoided.length > 0
+        ? `\n${prompts.variables.avoidTopicsLabel ?? "Avoid"}:\n${avoided.map((item) => `- ${item.topic}`).join("\n")}\n`
+        : "";
+    const prompt = renderPrompt(prompts.templates.plan, { ...prompts.variables, evidence, avoidTopics });
+
+    logLlmInfo("plan.request", {
+      model: options.model,
+      embeddingModel: options.embeddingModel,
+      promptChars: prompt.length,
+      topicSeedsCount: topicSeeds.length,
+      candidatePosts: candidatePosts.length,
+      attempt,
+      avoidedTopics: avoided.length,
+    });
 
-  const outputText = response.output_text ?? "";
-  logLlmInfo("plan.response", {
-    model: options.model,
-    outputChars: outputText.length,
-    outputPreview: clip(outputText),
-  });
+    const parsedPlan = await generateStructured(provider, {
+      purpose: "plan",
+      model: options.model,
+      prompt,
+      maxOutputTokens: 3200,
+      schemaName: "content_plan",
+      schema: PLAN_SCHEMA,
+      finalize: finalizePlan,
+      errorCode: "invalid_plan_response",
+      repairTemplate: prompts.templates.repair,
+      seed: options.seed,
+      signal: options.signal,
+    });
 
-  const parsedPlan = parsePlanResponse(outputText);
-  if (!parsedPlan) {
-    logLlmInfo("plan.parse_error", {
-      reason: "invalid_plan_response",
-      outputPreview: clip(outputText),
+    const embeddings = await embedWithStore(
+      options.embeddingStore,
+      parsedPlan.map((item) => item.topic),
+      async (texts) => (await provider.embed(options.embeddingModel, texts, options.signal)).embeddings,
+    );
+    return parsedPlan.map((item, index) => {
+      const embedding = embeddings[index] ?? [];
+      // Тем в плане больше, чем затравок, поэтому источники ищутся по близости темы, а не по номеру.
+      const sourceIds =
+        item.sourcePostIds.length > 0
+          ? item.sourcePostIds
+          : closestContext(embedding, contexts, topicEmbeddings)?.sources.map((p) => p.id) ?? [];
+      return { item: { ...item, sourcePostIds: sourceIds }, topic: item.topic, embedding };
     });
-    throw new Error("invalid_plan_response");
-  }
+  };
 
-  const generated = parsedPlan.map((item, index) => {
-    const sourceIds =
-      item.sourcePostIds.length > 0 ? item.sourcePostIds : contexts[index]?.sources.map((p) => p.id) ?? [];
-    return {
-      ...item,
-      rank: index + 1,
-      sourcePostIds: sourceIds,
-    };
-  });
+  // Модель просят о запасных темах; если после отсева повторов их все равно меньше десяти,
+  // недостающие запрашиваются еще раз со списком уже занятых и отброшенных тем.
+  const references = await loadTopicReferences(provider, posts, embeddedPosts, options);
+  let kept: PlanEntry[] = [];
+  const rejectedTopics: RejectedTopic[] = [];
+  for (let attempt = 1; kept.length < TOPIC_SEED_COUNT && attempt <= MAX_PLAN_ATTEMPTS; attempt += 1) {
+    const avoided = [...kept.map((entry) => entry.item), ...rejectedTopics.map((entry) => entry.item)];
+    const generated = await requestPlan(avoided, attempt);
+    // Эмбеддинги уже принятых тем переиспользуются, заново они не считаются.
+    const deduped = dedupeTopics([...kept, ...generated], references, options.topicDedupThreshold);
+    kept = deduped.kept;
+    const rejected = deduped.rejected.map((entry) => ({ item: entry.item.item, collidesWith: entry.collidesWith }));
+    if (rejected.length > 0) {
+      logLlmInfo("plan.topic_dedup", {
+        attempt,
+        rejected: rejected.map((entry) => ({
+          topic: entry.item.topic,
+          kind: entry.collidesWith.kind,
+          with: entry.collidesWith.text,
+          similarity: Number(entry.collidesWith.similarity.toFixed(3)),
+        })),
+      });
+    }
+    rejectedTopics.push(...rejected);
+  }
+  if (kept.length < TOPIC_SEED_COUNT) {
+    throw new Error("insufficient_unique_topics_after_avoidance");
+  }
 
   return {
-    plan: applyTopicAvoidanceStrict(generated, options.avoidTopics),
+    plan: kept.slice(0, TOPIC_SEED_COUNT).map((entry, index) => ({ ...entry.item, rank: index + 1 })),
+    rejectedTopics,
     topicSeeds,
+    promptVersions: {
+      topic_seeds: prompts.templates.topic_seeds.id,
+      plan: prompts.templates.plan.id,
+    },
   };
 }
@@ -0,0 +1,296 @@
+import { duplicateClusterKey, postKey, takeOnePerCluster } from "./dedup";
+import type { IndexedPost } from "./history";
+import type { ChannelKind } from "./historyManifest";
+import { analyzeText, createBm25Index, type LexicalIndex } from "./lexical";
+
+export type ChannelKindWeights = Record<ChannelKind, number>;
+
+/** Weights of the hybrid score; `exclude` is subtracted. */
+export interface RetrievalWeights {
+  embedding: number;
+  lexical: number;
+  mustHave: number;
+  exclude: number;
+  /** Bonus for posts listed in `citedPostKeys`. */
+  cited: number;
+}
+
+export const DEFAULT_RETRIEVAL_WEIGHTS: RetrievalWeights = {
+  // Больше веса семантике (embedding).
+  embedding: 0.65,
+  lexical: 0.25,
+  mustHave: 0.15,
+  exclude: 0.15,
+  cited: 0.2,
+};
+
+const DEFAULT_KIND_WEIGHTS: ChannelKindWeights = { own: 1, similar: 1 };
+
+export interface RetrievalFilters {
+  kinds?: ChannelKind[];
+  channels?: string[];
+  /** Inclusive ISO date or timestamp bounds of `published_at`. */
+  from?: string;
+  to?: string;
+}
+
+export interface RetrievalQuery {
+  text: string;
+  embedding: number[];
+  /** Lexical terms used instead of the tokens of `text` when not empty. */
+  keywords?: string[];
+  mustHave?: string[];
+  exclude?: string[];
+  /**
+   * `postKey` (channel:id) of the posts the model cited as its sources; they get
+   * the `cited` bonus. Keys, not ids: ids repeat across channels.
+   */
+  citedPostKeys?: string[];
+  /** Omitted: every post that passes the filters and thresholds. */
+  topK?: number;
+  filters?: RetrievalFilters;
+  minScore?: number;
+  /** Drops posts below this lexical score unless they match a `mustHave` term or are cited. */
+  minLexical?: number;
+  /**
+   * Re-ranks the best `3 * topK` posts with Maximal Marginal Relevance:
+   * 1 keeps pure relevance order, 0 maximizes diversity. Needs `topK`.
+   */
+  mmrLambda?: number;
+}
+
+export interface ScoreComponents {
+  embedding: number;
+  lexical: number;
+  /** 1 when the query has no `mustHave` terms. */
+  mustHave: number;
+  exclude: number;
+  /** 1 for posts in `citedPostKeys`, 0 otherwise. */
+  cited: number;
+  kindWeight: number;
+}
+
+export interface ScoredPost {
+  post: IndexedPost;
+  score: number;
+  components: ScoreComponents;
+}
+
+/** Why a post that passed the filters is not in the result. */
+export type RetrievalRejection = "min_score" | "min_lexical" | "duplicate_cluster" | "top_k";
+
+export interface ExplainedPost extends ScoredPost {
+  /** 1-based position in the result, `null` when rejected. */
+  rank: number | null;
+  rejectedBy: RetrievalRejection | null;
+}
+
+export interface RetrieverOptions {
+  weights?: Partial<RetrievalWeights>;
+  /** Multipliers of the final score; 0 excludes the kind. */
+  kindWeights?: Partial<ChannelKindWeights>;
+  /** Applied to every query on top of the query's own filters. */
+  filters?: RetrievalFilters;
+}
+
+export interface Retriever {
+  /** Posts ranked by score, one per duplicate cluster. */
+  retrieve(query: RetrievalQuery): ScoredPost[];
+  /** Every post that passes the filters, by score, with the reason it was or was not retrieved. */
+  explain(query: RetrievalQuery): ExplainedPost[];
+}
+
+const MAX_KEYWORD_TERMS = 20;
+const MAX_MUST_HAVE_TERMS = 30;
+const MMR_POOL_FACTOR = 3;
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(a: number[]): number {
+  return Math.sqrt(dot(a, a));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const denom = norm(a) * norm(b);
+  if (denom === 0) return 0;
+  return dot(a, b) / denom;
+}
+
+// Посты из индекса истории неизменяемы, поэтому их термы считаются один раз на пост.
+const analyzedPosts = new WeakMap<IndexedPost, string[]>();
+
+function postTerms(post: IndexedPost): string[] {
+  let terms = analyzedPosts.get(post);
+  if (!terms) {
+    terms = analyzeText(post.text);
+    analyzedPosts.set(post, terms);
+  }
+  return terms;
+}
+
+function analyzeTerms(terms: string[] | undefined, limit: number): string[] {
+  return (terms ?? []).flatMap((term) => analyzeText(term)).slice(0, limit);
+}
+
+function parseBound(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const ts = Date.parse(value);
+  if (Number.isNaN(ts)) {
+    throw new Error(`invalid_retrieval_date: ${value}`);
+  }
+  return ts;
+}
+
+interface RankedEntry {
+  scored: ScoredPost;
+  embedding: number[];
+  threshold: "min_score" | "min_lexical" | null;
+}
+
+/**
+ * Greedy MMR: each step picks the candidate maximizing
+ * `lambda * score - (1 - lambda) * max cosine to already picked`. Ties go to
+ * the higher-ranked candidate, so the result depends only on the inputs.
+ */
+function selectByMmr(candidates: RankedEntry[], topK: number, lambda: number): RankedEntry[] {
+  const remaining = [...candidates];
+  const picked: RankedEntry[] = [];
+  while (picked.length < topK && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    remaining.forEach((candidate, index) => {
+      const redundancy = picked.reduce(
+        (max, entry) => Math.max(max, cosineSimilarity(candidate.embedding, entry.embedding)),
+        0,
+      );
+      const value = lambda * candidate.scored.score - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+    picked.push(...remaining.splice(bestIndex, 1));
+  }
+  return picked;
+}
+
+function createPostFilter(filters: RetrievalFilters[]): (post: IndexedPost) => boolean {
+  const checks = filters.map((filter) => {
+    const kinds = filter.kinds ? new Set(filter.kinds) : null;
+    const channels = filter.channels ? new Set(filter.channels) : null;
+    const from = parseBound(filter.from);
+    const to = parseBound(filter.to);
+    return (post: IndexedPost) => {
+      if (kinds && !kinds.has(post.kind)) return false;
+      if (channels && !channels.has(post.channel)) return false;
+      if (from === undefined && to === undefined) return true;
+      const ts = Date.parse(post.published_at);
+      if (Number.isNaN(ts)) return false;
+      return (from === undefined || ts >= from) && (to === undefined || ts <= to);
+    };
+  });
+  return (post) => checks.every((check) => check(post));
+}
+
+/**
+ * Hybrid retrieval over posts with precomputed embeddings (same order as
+ * `posts`): cosine similarity plus BM25 of the query or its keywords, a bonus
+ * for `mustHave` terms and a penalty for `exclude` terms, multiplied by the
+ * channel kind weight. IDF is computed over `posts`, once per retriever.
+ */
+export function createRetriever(
+  posts: IndexedPost[],
+  postEmbeddings: number[][],
+  options: RetrieverOptions = {},
+): Retriever {
+  const weights = { ...DEFAULT_RETRIEVAL_WEIGHTS, ...options.weights };
+  const kindWeights = { ...DEFAULT_KIND_WEIGHTS, ...options.kindWeights };
+  let lexicalIndex: LexicalIndex | null = null;
+  // BM25 строится лениво: чисто семантическим запросам термы не нужны.
+  const getLexicalIndex = (): LexicalIndex => (lexicalIndex ??= createBm25Index(posts.map(postTerms)));
+
+  const rank = (query: RetrievalQuery): RankedEntry[] => {
+    const keywordTerms = analyzeTerms(query.keywords, MAX_KEYWORD_TERMS);
+    const lexicalTerms = keywordTerms.length > 0 ? keywordTerms : analyzeText(query.text);
+    const mustTerms = analyzeTerms(query.mustHave, MAX_MUST_HAVE_TERMS);
+    const excludeTerms = analyzeTerms(query.exclude, MAX_KEYWORD_TERMS);
+    const accepts = createPostFilter([options.filters ?? {}, query.filters ?? {}]);
+    const cited = new Set(query.citedPostKeys ?? []);
+    const useLexical = weights.lexical !== 0 || query.minLexical !== undefined;
+    const index = useLexical || mustTerms.length > 0 || excludeTerms.length > 0 ? getLexicalIndex() : null;
+    if (query.mmrLambda !== undefined && !(query.mmrLambda >= 0 && query.mmrLambda <= 1)) {
+      throw new Error(`invalid_mmr_lambda: ${query.mmrLambda}`);
+    }
+
+    const ranked: RankedEntry[] = [];
+    posts.forEach((post, position) => {
+      const kindWeight = kindWeights[post.kind];
+      if (kindWeight <= 0 || !accepts(post)) return;
+
+      const components: ScoreComponents = {
+        embedding: cosineSimilarity(query.embedding, postEmbeddings[position] ?? []),
+        lexical: useLexical && index ? index.score(lexicalTerms, position) : 0,
+        mustHave: mustTerms.length === 0 || !index ? 1 : index.score(mustTerms, position),
+        exclude: index ? index.score(excludeTerms, position) : 0,
+        cited: cited.has(postKey(post)) ? 1 : 0,
+        kindWeight,
+      };
+      const score =
+        (components.embedding * weights.embedding +
+          components.lexical * weights.lexical +
+          components.mustHave * weights.mustHave -
+          components.exclude * weights.exclude +
+          components.cited * weights.cited) *
+        kindWeight;
+
+      let threshold: RankedEntry["threshold"] = null;
+      if (query.minScore !== undefined && score < query.minScore) {
+        threshold = "min_score";
+      } else if (
+        query.minLexical !== undefined &&
+        components.lexical < query.minLexical &&
+        components.mustHave <= 0 &&
+        components.cited === 0
+      ) {
+        threshold = "min_lexical";
+      }
+      ranked.push({ scored: { post, score, components }, embedding: postEmbeddings[position] ?? [], threshold });
+    });
+    return ranked.sort((a, b) => b.scored.score - a.scored.score);
+  };
+
+  const select = (query: RetrievalQuery, candidates: RankedEntry[]): RankedEntry[] => {
+    const { topK, mmrLambda } = query;
+    const diversify = mmrLambda !== undefined && topK !== undefined;
+    // Репосты одного текста в разных каналах дают один результат, а не несколько.
+    const top = takeOnePerCluster(candidates, (entry) => entry.scored.post, diversify ? topK * MMR_POOL_FACTOR : topK);
+    return diversify ? selectByMmr(top, topK, mmrLambda) : top;
+  };
+
+  return {
+    retrieve(query) {
+      const passed = rank(query).filter((entry) => entry.threshold === null);
+      return select(query, passed).map((entry) => entry.scored);
+    },
+    explain(query) {
+      const ranked = rank(query);
+      const passed = ranked.filter((entry) => entry.threshold === null);
+      const positions = new Map(select(query, passed).map((entry, index) => [entry, index + 1]));
+      const clusters = new Set<string>();
+      return ranked.map((entry): ExplainedPost => {
+        const position = positions.get(entry);
+        let rejectedBy: RetrievalRejection | null = entry.threshold;
+        if (!rejectedBy) {
+          const cluster = duplicateClusterKey(entry.scored.post);
+          rejectedBy = position === undefined ? (clusters.has(cluster) ? "duplicate_cluster" : "top_k") : null;
+          clusters.add(cluster);
+        }
+        return { ...entry.scored, rank: position ?? null, rejectedBy };
+      });
+    },
+  };
+}
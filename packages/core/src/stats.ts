@@ -0,0 +1,159 @@
+import { getReactionTotal, getViewCount } from "./engagement";
+import type { IndexedPost } from "./history";
+import type { ChannelKind } from "./historyManifest";
+
+export interface DistributionStats {
+  /** Number of posts the distribution is built from. */
+  count: number;
+  median: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export interface ChannelStats {
+  channel: string;
+  kind: ChannelKind;
+  totalPosts: number;
+  firstPostAt: string | null;
+  lastPostAt: string | null;
+  /** `YYYY-MM` -> posts, in the stats time zone. */
+  postsByMonth: Record<string, number>;
+  reactions: DistributionStats;
+  /** `null` when no post of the channel has views. */
+  views: DistributionStats | null;
+  avgTextLength: number;
+  /** Share of posts with at least one media item, 0..1. */
+  mediaShare: number;
+  /** Index 0 is Monday. */
+  weekdayHistogram: number[];
+  /** Index is the hour 0..23. */
+  hourHistogram: number[];
+}
+
+export interface HistoryStats {
+  generatedAt: string;
+  timeZone: string;
+  totalPosts: number;
+  channels: ChannelStats[];
+}
+
+export interface HistoryStatsOptions {
+  /** IANA time zone for months, weekdays and hours; UTC by default. */
+  timeZone?: string;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6 };
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function describe(values: number[]): DistributionStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    median: percentile(sorted, 0.5),
+    p25: percentile(sorted, 0.25),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    max: sorted.at(-1) ?? 0,
+  };
+}
+
+function createDateParts(timeZone: string) {
+  // Бросает RangeError на неизвестной зоне — вызывающий код решает, что с этим делать.
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    hourCycle: "h23",
+  });
+  return (date: Date) => {
+    const parts = Object.fromEntries(format.formatToParts(date).map((part) => [part.type, part.value]));
+    return {
+      month: `${parts.year}-${parts.month}`,
+      weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+      hour: Number(parts.hour) % 24,
+    };
+  };
+}
+
+function computeChannelStats(
+  channel: string,
+  posts: IndexedPost[],
+  dateParts: ReturnType<typeof createDateParts>,
+): ChannelStats {
+  const postsByMonth: Record<string, number> = {};
+  const weekdayHistogram = new Array<number>(7).fill(0);
+  const hourHistogram = new Array<number>(24).fill(0);
+  const views: number[] = [];
+  let firstTs = Number.POSITIVE_INFINITY;
+  let lastTs = Number.NEGATIVE_INFINITY;
+  let textLength = 0;
+  let withMedia = 0;
+
+  for (const post of posts) {
+    const ts = Date.parse(post.published_at);
+    if (!Number.isNaN(ts)) {
+      const parts = dateParts(new Date(ts));
+      postsByMonth[parts.month] = (postsByMonth[parts.month] ?? 0) + 1;
+      weekdayHistogram[parts.weekday] += 1;
+      hourHistogram[parts.hour] += 1;
+      firstTs = Math.min(firstTs, ts);
+      lastTs = Math.max(lastTs, ts);
+    }
+    const postViews = getViewCount(post);
+    if (postViews !== undefined) views.push(postViews);
+    textLength += post.text.length;
+    if ((post.media?.length ?? 0) > 0) withMedia += 1;
+  }
+
+  return {
+    channel,
+    kind: posts[0]?.kind ?? "own",
+    totalPosts: posts.length,
+    firstPostAt: Number.isFinite(firstTs) ? new Date(firstTs).toISOString() : null,
+    lastPostAt: Number.isFinite(lastTs) ? new Date(lastTs).toISOString() : null,
+    postsByMonth: Object.fromEntries(Object.entries(postsByMonth).sort(([a], [b]) => a.localeCompare(b))),
+    reactions: describe(posts.map(getReactionTotal)),
+    views: views.length > 0 ? describe(views) : null,
+    avgTextLength: posts.length > 0 ? Math.round(textLength / posts.length) : 0,
+    mediaShare: posts.length > 0 ? withMedia / posts.length : 0,
+    weekdayHistogram,
+    hourHistogram,
+  };
+}
+
+/** Per-channel statistics over indexed posts; channels are sorted by post count. */
+export function computeHistoryStats(posts: IndexedPost[], options: HistoryStatsOptions = {}): HistoryStats {
+  const timeZone = options.timeZone ?? "UTC";
+  const dateParts = createDateParts(timeZone);
+  const byChannel = new Map<string, IndexedPost[]>();
+  for (const post of posts) {
+    const channelPosts = byChannel.get(post.channel);
+    if (channelPosts) {
+      channelPosts.push(post);
+    } else {
+      byChannel.set(post.channel, [post]);
+    }
+  }
+
+  const channels = Array.from(byChannel, ([channel, channelPosts]) =>
+    computeChannelStats(channel, channelPosts, dateParts),
+  ).sort((a, b) => b.totalPosts - a.totalPosts || a.channel.localeCompare(b.channel));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    timeZone,
+    totalPosts: posts.length,
+    channels,
+  };
+}
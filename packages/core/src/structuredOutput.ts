@@ -0,0 +1,278 @@
+import { LlmError } from "./llmCall";
+import { clip, logLlmInfo, logLlmRawResponse } from "./llmLog";
+import type { JsonSchemaFormat, LlmProvider, TextGenerationRequest } from "./llmProvider";
+import { renderPrompt, type PromptTemplate } from "./prompts";
+
+const DEFAULT_MAX_REPAIRS = 2;
+const REPAIR_PREVIOUS_OUTPUT_MAX = 2000;
+// Строгий режим OpenAI принимает только объект в корне схемы.
+const WRAPPED_RESULT_KEY = "result";
+
+/** The JSON Schema subset the pipelines need; maps 1:1 onto provider structured-output schemas. */
+export type JsonSchema =
+  | { type: "string"; enum?: readonly string[]; minLength?: number }
+  | { type: "number" | "integer"; minimum?: number; maximum?: number }
+  | { type: "boolean" }
+  | { type: "array"; items: JsonSchema; minItems?: number; maxItems?: number }
+  | { type: "object"; properties: Record<string, JsonSchema>; required?: readonly string[] };
+
+export interface SchemaIssue {
+  /** JSONPath-like location, e.g. `$[3].tone`. */
+  path: string;
+  message: string;
+}
+
+export type StructuredCheck<T> = { value: T } | { issues: SchemaIssue[] };
+
+export interface StructuredRequest<T> extends Omit<TextGenerationRequest, "jsonSchema"> {
+  schemaName: string;
+  schema: JsonSchema;
+  /** Semantic checks and normalization on top of the schema, e.g. uniqueness. */
+  finalize: (value: unknown) => StructuredCheck<T>;
+  /** Message of the `invalid_output` error thrown when every attempt fails validation. */
+  errorCode: string;
+  /** Re-asks with `{{prompt}}`, `{{previousOutput}}` and `{{issues}}` after an invalid answer. */
+  repairTemplate: PromptTemplate;
+  /** Extra attempts after the first invalid answer. */
+  maxRepairs?: number;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/** Field-level validation of `value` against `schema`; an empty list means valid. */
+export function validateJson(schema: JsonSchema, value: unknown, path = "$"): SchemaIssue[] {
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        return [{ path, message: `expected string, got ${describeType(value)}` }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `must be one of ${schema.enum.join(", ")}, got ${JSON.stringify(value)}` }];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [{ path, message: `must have at least ${schema.minLength} non-blank characters` }];
+      }
+      return [];
+    }
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return [{ path, message: `expected ${schema.type}, got ${describeType(value)}` }];
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        return [{ path, message: "expected integer" }];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [{ path, message: `must be >= ${schema.minimum}` }];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [{ path, message: `must be <= ${schema.maximum}` }];
+      }
+      return [];
+    }
+    case "boolean":
+      return typeof value === "boolean" ? [] : [{ path, message: `expected boolean, got ${describeType(value)}` }];
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [{ path, message: `expected array, got ${describeType(value)}` }];
+      }
+      const issues: SchemaIssue[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path, message: `expected at least ${schema.minItems} items, got ${value.length}` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path, message: `expected at most ${schema.maxItems} items, got ${value.length}` });
+      }
+      value.forEach((item, index) => issues.push(...validateJson(schema.items, item, `${path}[${index}]`)));
+      return issues;
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [{ path, message: `expected object, got ${describeType(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      const required = new Set(schema.required ?? []);
+      const issues: SchemaIssue[] = [];
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const propertyValue = record[key];
+        // null для необязательного поля — так строгий режим провайдера кодирует "нет значения".
+        if (propertyValue === undefined || (propertyValue === null && !required.has(key))) {
+          if (required.has(key)) issues.push({ path: `${path}.${key}`, message: "is required" });
+          continue;
+        }
+        issues.push(...validateJson(propertySchema, propertyValue, `${path}.${key}`));
+      }
+      return issues;
+    }
+  }
+}
+
+/**
+ * Provider-facing form of a schema for strict structured output: objects
+ * list every property as required (optional ones become nullable), forbid
+ * extra keys, and a non-object root is wrapped into `{ result: ... }`.
+ * Keywords strict mode does not accept (`minLength`) are dropped; they are
+ * still enforced by `validateJson`.
+ */
+export function toProviderJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const convert = (node: JsonSchema): Record<string, unknown> => {
+    switch (node.type) {
+      case "string":
+        return node.enum ? { type: "string", enum: [...node.enum] } : { type: "string" };
+      case "number":
+      case "integer": {
+        const { type, minimum, maximum } = node;
+        return { type, ...(minimum !== undefined ? { minimum } : {}), ...(maximum !== undefined ? { maximum } : {}) };
+      }
+      case "boolean":
+        return { type: "boolean" };
+      case "array": {
+        const { minItems, maxItems } = node;
+        return {
+          type: "array",
+          items: convert(node.items),
+          ...(minItems !== undefined ? { minItems } : {}),
+          ...(maxItems !== undefined ? { maxItems } : {}),
+        };
+      }
+      case "object": {
+        const required = new Set(node.required ?? []);
+        const properties = Object.fromEntries(
+          Object.entries(node.properties).map(([key, property]) => {
+            const converted = convert(property);
+            return [key, required.has(key) ? converted : { anyOf: [converted, { type: "null" }] }];
+          }),
+        );
+        return {
+          type: "object",
+          properties,
+          required: Object.keys(node.properties),
+          additionalProperties: false,
+        };
+      }
+    }
+  };
+
+  if (schema.type === "object") return convert(schema);
+  return convert({ type: "object", properties: { [WRAPPED_RESULT_KEY]: schema }, required: [WRAPPED_RESULT_KEY] });
+}
+
+function stripCodeFence(text: string): string {
+  const fenced = text.match(/^```[a-z]*\s*\n([\s\S]*?)\n?```$/i);
+  return fenced ? fenced[1] : text;
+}
+
+/**
+ * Reads JSON out of a model answer: the whole text, a fenced code block, or
+ * the outermost `[...]` / `{...}` span when the model added prose around it.
+ */
+export function extractJson(raw: string): { value: unknown } | null {
+  const text = stripCodeFence(raw.trim()).trim();
+  try {
+    return { value: JSON.parse(text) as unknown };
+  } catch {
+    // ниже — поиск JSON внутри текста
+  }
+
+  const candidates = ["[", "{"]
+    .map((open) => ({ start: text.indexOf(open), end: text.lastIndexOf(open === "[" ? "]" : "}") }))
+    .filter(({ start, end }) => start !== -1 && end > start)
+    .sort((a, b) => a.start - b.start);
+  for (const { start, end } of candidates) {
+    try {
+      return { value: JSON.parse(text.slice(start, end + 1)) as unknown };
+    } catch {
+      // пробуем следующий вариант
+    }
+  }
+  return null;
+}
+
+function unwrapResult(schema: JsonSchema, value: unknown): unknown {
+  if (schema.type === "object" || typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  return WRAPPED_RESULT_KEY in record ? record[WRAPPED_RESULT_KEY] : value;
+}
+
+export function checkStructuredOutput<T>(
+  raw: string,
+  schema: JsonSchema,
+  finalize: (value: unknown) => StructuredCheck<T>,
+): StructuredCheck<T> {
+  const extracted = extractJson(raw);
+  if (!extracted) {
+    return { issues: [{ path: "$", message: "response is not valid JSON" }] };
+  }
+  const value = unwrapResult(schema, extracted.value);
+  const issues = validateJson(schema, value);
+  return issues.length > 0 ? { issues } : finalize(value);
+}
+
+function buildRepairPrompt(
+  template: PromptTemplate,
+  prompt: string,
+  previousOutput: string,
+  issues: SchemaIssue[],
+): string {
+  return renderPrompt(template, {
+    prompt,
+    previousOutput: clip(previousOutput, REPAIR_PREVIOUS_OUTPUT_MAX),
+    issues: issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n"),
+  });
+}
+
+/**
+ * Asks the provider for JSON matching `schema` and validates the answer. An
+ * invalid answer is sent back with the field-level errors for up to
+ * `maxRepairs` more attempts; after that an `invalid_output` LlmError with
+ * `errorCode` as its message is thrown.
+ */
+export async function generateStructured<T>(provider: LlmProvider, request: StructuredRequest<T>): Promise<T> {
+  const {
+    schemaName,
+    schema,
+    finalize,
+    errorCode,
+    repairTemplate,
+    maxRepairs = DEFAULT_MAX_REPAIRS,
+    ...textRequest
+  } = request;
+  const jsonSchema: JsonSchemaFormat = { name: schemaName, schema: toProviderJsonSchema(schema) };
+  const event = textRequest.purpose;
+
+  let prompt = textRequest.prompt;
+  for (let attempt = 0; attempt <= maxRepairs; attempt += 1) {
+    if (attempt > 0) {
+      logLlmInfo(`${event}.repair`, { model: textRequest.model, attempt, promptChars: prompt.length });
+    }
+    const response = await provider.generateText({ ...textRequest, prompt, jsonSchema });
+    logLlmRawResponse(`${event}.response`, response.raw);
+
+    const outputText = response.text;
+    logLlmInfo(`${event}.response`, {
+      model: textRequest.model,
+      attempt,
+      outputChars: outputText.length,
+      outputPreview: clip(outputText),
+    });
+
+    const checked = checkStructuredOutput(outputText, schema, finalize);
+    if ("value" in checked) {
+      return checked.value;
+    }
+    logLlmInfo(`${event}.parse_error`, {
+      reason: errorCode,
+      attempt,
+      issues: checked.issues,
+      outputPreview: clip(outputText),
+    });
+    prompt = buildRepairPrompt(repairTemplate, textRequest.prompt, outputText, checked.issues);
+  }
+  throw new LlmError("invalid_output", errorCode);
+}
@@ -0,0 +1,441 @@
+import { postKey } from "./dedup";
+import { embedWithStore, type EmbeddingStore } from "./embeddingStore";
+import { createEngagementScorer, getReactionTotal, getViewCount } from "./engagement";
+import type { IndexedPost } from "./history";
+import { historyChecksum } from "./historyIndex";
+import type { ChannelKind } from "./historyManifest";
+import { analyzeWords } from "./lexical";
+import { withRetries } from "./llmCall";
+import { logLlmInfo } from "./llmLog";
+import type { LlmProvider } from "./llmProvider";
+import { loadPromptSet, renderPrompt, type PromptSet } from "./prompts";
+import { createOpenAiProvider } from "./providers/openai";
+import { cosineSimilarity } from "./retriever";
+import { generateStructured, type JsonSchema, type StructuredCheck } from "./structuredOutput";
+import { withUsageTracking, type UsageListener } from "./usage";
+
+const MIN_THEMES = 2;
+const MAX_THEMES = 12;
+const DEFAULT_MAX_ITERATIONS = 30;
+const TOP_TERMS = 5;
+const LABEL_TERMS = 3;
+const EXAMPLES_PER_THEME = 3;
+const EMBEDDING_BATCH_SIZE = 256;
+
+/** `terms`: the top terms of a theme; `llm`: one model call names every theme. */
+export type ThemeLabeler = "terms" | "llm";
+
+export interface ThemeEngagement {
+  /** Mean 0..1 engagement score (see `createEngagementScorer`), normalized over all clustered posts. */
+  avgScore: number;
+  avgReactions: number;
+  /** `null` when no post of the theme has views. */
+  avgViews: number | null;
+}
+
+export interface ThemeExample {
+  channel: string;
+  id: string;
+  kind: ChannelKind;
+  published_at: string;
+  snippet: string;
+}
+
+export interface Theme {
+  id: string;
+  label: string;
+  /** Most distinctive words of the theme, most distinctive first. */
+  topTerms: string[];
+  size: number;
+  sizeByKind: Record<ChannelKind, number>;
+  engagement: ThemeEngagement;
+  latestPostAt: string | null;
+  /** Posts closest to the theme centroid. */
+  examples: ThemeExample[];
+}
+
+export interface ThemeMembership {
+  channel: string;
+  id: string;
+  themeId: string;
+  /** Cosine similarity of the post to its theme centroid. */
+  similarity: number;
+}
+
+export interface ThemeIndex {
+  generatedAt: string;
+  labeledWith: ThemeLabeler;
+  /** `historyChecksum` of the posts passed in; the themes are stale once the history checksum differs. */
+  historyChecksum: string;
+  /** Clustered posts; posts with an empty embedding are left out. */
+  totalPosts: number;
+  /** Largest first. */
+  themes: Theme[];
+  /** One entry per clustered post. */
+  membership: ThemeMembership[];
+}
+
+export interface ThemeClusteringOptions {
+  /** Number of themes; 0 or omitted picks about `sqrt(posts / 2)`, 2..12. */
+  count?: number;
+  maxIterations?: number;
+  /** Seed of the k-means++ initialization; the same seed and posts give the same themes. */
+  seed?: number;
+}
+
+export interface ThemeIndexOptions extends ThemeClusteringOptions {
+  /** Used for the default OpenAI provider when `provider` is not set. */
+  apiKey?: string;
+  provider?: LlmProvider;
+  model: string;
+  embeddingModel: string;
+  embeddingStore?: EmbeddingStore;
+  /** `terms` by default; `llm` needs one text generation call. */
+  labels?: ThemeLabeler;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+  /** Templates and variables; the bundled Russian set when omitted. */
+  prompts?: PromptSet;
+}
+
+const THEME_LABELS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      id: { type: "string", minLength: 1 },
+      label: { type: "string", minLength: 1 },
+    },
+    required: ["id", "label"],
+  },
+};
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function truncate(text: string, max = 420): string {
+  const clean = normalize(text);
+  return clean.length <= max ? clean : `${clean.slice(0, max)}...`;
+}
+
+/** mulberry32: a small deterministic PRNG for the centroid initialization. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function unitVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+function resolveThemeCount(requested: number | undefined, postCount: number): number {
+  const count =
+    requested && requested > 0
+      ? Math.round(requested)
+      : Math.min(MAX_THEMES, Math.max(MIN_THEMES, Math.round(Math.sqrt(postCount / 2))));
+  return Math.max(1, Math.min(postCount, count));
+}
+
+/** k-means++: each next centroid is picked with probability proportional to its distance from the nearest one. */
+function initCentroids(vectors: number[][], count: number, random: () => number): number[][] {
+  const centroids = [vectors[Math.floor(random() * vectors.length)]];
+  const distances = vectors.map((vector) => 1 - cosineSimilarity(vector, centroids[0]));
+  while (centroids.length < count) {
+    const total = distances.reduce((sum, value) => sum + Math.max(0, value), 0);
+    let target = random() * total;
+    let next = distances.findIndex((value) => (target -= Math.max(0, value)) <= 0);
+    if (total <= 0 || next === -1) next = centroids.length % vectors.length;
+    centroids.push(vectors[next]);
+    vectors.forEach((vector, index) => {
+      distances[index] = Math.min(distances[index], 1 - cosineSimilarity(vector, vectors[next]));
+    });
+  }
+  return centroids;
+}
+
+function nearestCentroid(vector: number[], centroids: number[][]): { index: number; similarity: number } {
+  let best = { index: 0, similarity: Number.NEGATIVE_INFINITY };
+  centroids.forEach((centroid, index) => {
+    const similarity = cosineSimilarity(vector, centroid);
+    if (similarity > best.similarity) best = { index, similarity };
+  });
+  return best;
+}
+
+/** Spherical k-means: cosine assignment, centroids are normalized means. */
+function kMeans(
+  vectors: number[][],
+  count: number,
+  maxIterations: number,
+  random: () => number,
+): { assignments: number[]; centroids: number[][] } {
+  let centroids = initCentroids(vectors, count, random);
+  let assignments = vectors.map(() => -1);
+  for (let iteration = 0; iteration < maxIterations; iteration += 1) {
+    const next = vectors.map((vector) => nearestCentroid(vector, centroids).index);
+    const changed = next.some((value, index) => value !== assignments[index]);
+    assignments = next;
+    if (!changed) break;
+
+    const dimensions = vectors[0]?.length ?? 0;
+    const sums = centroids.map(() => new Array<number>(dimensions).fill(0));
+    const sizes = centroids.map(() => 0);
+    vectors.forEach((vector, index) => {
+      const cluster = assignments[index];
+      sizes[cluster] += 1;
+      for (let d = 0; d < dimensions; d += 1) sums[cluster][d] += vector[d];
+    });
+    centroids = sums.map((sum, cluster) => {
+      if (sizes[cluster] > 0) return unitVector(sum);
+      // Пустой кластер забирает пост, хуже всего подходящий своему центроиду.
+      let worst = 0;
+      let worstSimilarity = Number.POSITIVE_INFINITY;
+      vectors.forEach((vector, index) => {
+        const similarity = cosineSimilarity(vector, centroids[assignments[index]]);
+        if (similarity < worstSimilarity) {
+          worstSimilarity = similarity;
+          worst = index;
+        }
+      });
+      return vectors[worst];
+    });
+  }
+  // После последнего пересчета центроидов посты могли сменить ближайший.
+  assignments = vectors.map((vector) => nearestCentroid(vector, centroids).index);
+  return { assignments, centroids };
+}
+
+/**
+ * Terms frequent in the theme and rare elsewhere (document frequency in the
+ * theme times a smoothed IDF over all posts), shown as their most common word form.
+ */
+function topTermsByTheme(posts: IndexedPost[], assignments: number[], count: number): string[][] {
+  const documentFrequency = new Map<string, number>();
+  const themeFrequency = Array.from({ length: count }, () => new Map<string, number>());
+  const wordForms = new Map<string, Map<string, number>>();
+  posts.forEach((post, index) => {
+    const words = analyzeWords(post.text);
+    for (const { term, word } of words) {
+      const forms = wordForms.get(term) ?? new Map<string, number>();
+      forms.set(word, (forms.get(word) ?? 0) + 1);
+      wordForms.set(term, forms);
+    }
+    for (const term of new Set(words.map((entry) => entry.term))) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      const theme = themeFrequency[assignments[index]];
+      theme.set(term, (theme.get(term) ?? 0) + 1);
+    }
+  });
+
+  const commonForm = (term: string): string => {
+    const forms = Array.from(wordForms.get(term) ?? []);
+    forms.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    return forms[0]?.[0] ?? term;
+  };
+  return themeFrequency.map((frequencies) =>
+    Array.from(frequencies)
+      .map(([term, frequency]) => ({
+        term,
+        score: frequency * Math.log(1 + posts.length / (documentFrequency.get(term) ?? 1)),
+      }))
+      .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+      .slice(0, TOP_TERMS)
+      .map((entry) => commonForm(entry.term)),
+  );
+}
+
+function latestDate(posts: IndexedPost[]): string | null {
+  let latest: string | null = null;
+  let latestTs = Number.NEGATIVE_INFINITY;
+  for (const post of posts) {
+    const ts = Date.parse(post.published_at);
+    if (!Number.isNaN(ts) && ts > latestTs) {
+      latestTs = ts;
+      latest = post.published_at;
+    }
+  }
+  return latest;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Groups posts into themes by k-means over their embeddings (same order as
+ * `posts`) and labels each theme with its top terms. Posts with an empty
+ * embedding get no theme. Deterministic for the same posts, embeddings and seed.
+ */
+export function clusterThemes(
+  posts: IndexedPost[],
+  embeddings: number[][],
+  options: ThemeClusteringOptions = {},
+): ThemeIndex {
+  if (posts.length === 0) {
+    throw new Error("empty_posts");
+  }
+
+  // Пустой вектор дал бы NaN в сумме центроида, поэтому такие посты не кластеризуются.
+  const clustered = posts.flatMap((post, index) => {
+    const embedding = embeddings[index] ?? [];
+    return embedding.length > 0 ? [{ post, vector: unitVector(embedding) }] : [];
+  });
+  if (clustered.length === 0) {
+    throw new Error("empty_embeddings");
+  }
+  const clusteredPosts = clustered.map((entry) => entry.post);
+  const vectors = clustered.map((entry) => entry.vector);
+  const count = resolveThemeCount(options.count, clusteredPosts.length);
+  const { assignments, centroids } = kMeans(
+    vectors,
+    count,
+    options.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+    seededRandom(options.seed ?? 1),
+  );
+  const terms = topTermsByTheme(clusteredPosts, assignments, count);
+  const scoreEngagement = createEngagementScorer(clusteredPosts);
+
+  const membership: ThemeMembership[] = [];
+  const members = centroids.map(() => [] as Array<{ post: IndexedPost; similarity: number }>);
+  clusteredPosts.forEach((post, index) => {
+    const similarity = cosineSimilarity(vectors[index], centroids[assignments[index]]);
+    members[assignments[index]].push({ post, similarity });
+    membership.push({ channel: post.channel, id: post.id, themeId: "", similarity });
+  });
+
+  const ordered = members
+    .map((entries, cluster) => ({ entries, cluster }))
+    .filter(({ entries }) => entries.length > 0)
+    .sort((a, b) => b.entries.length - a.entries.length || a.cluster - b.cluster);
+  const themeIds = new Map(ordered.map(({ cluster }, index) => [cluster, `theme_${index + 1}`]));
+  membership.forEach((entry, index) => {
+    entry.themeId = themeIds.get(assignments[index]) ?? "";
+  });
+
+  const themes = ordered.map(({ entries, cluster }): Theme => {
+    const themePosts = entries.map((entry) => entry.post);
+    const views = themePosts.map(getViewCount).filter((value): value is number => value !== undefined);
+    return {
+      id: themeIds.get(cluster) ?? "",
+      label: terms[cluster].slice(0, LABEL_TERMS).join(", "),
+      topTerms: terms[cluster],
+      size: entries.length,
+      sizeByKind: {
+        own: themePosts.filter((post) => post.kind === "own").length,
+        similar: themePosts.filter((post) => post.kind === "similar").length,
+      },
+      engagement: {
+        avgScore: mean(themePosts.map(scoreEngagement)),
+        avgReactions: mean(themePosts.map(getReactionTotal)),
+        avgViews: views.length > 0 ? mean(views) : null,
+      },
+      latestPostAt: latestDate(themePosts),
+      examples: [...entries]
+        .sort((a, b) => b.similarity - a.similarity || postKey(a.post).localeCompare(postKey(b.post)))
+        .slice(0, EXAMPLES_PER_THEME)
+        .map(({ post }) => ({
+          channel: post.channel,
+          id: post.id,
+          kind: post.kind,
+          published_at: post.published_at,
+          snippet: truncate(post.text, 140),
+        })),
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    labeledWith: "terms",
+    historyChecksum: historyChecksum(posts),
+    totalPosts: clusteredPosts.length,
+    themes,
+    membership,
+  };
+}
+
+function finalizeThemeLabels(ids: string[]): (value: unknown) => StructuredCheck<Map<string, string>> {
+  return (value) => {
+    const labels = new Map<string, string>();
+    for (const item of value as Array<{ id: string; label: string }>) {
+      if (ids.includes(item.id.trim()) && item.label.trim()) labels.set(item.id.trim(), normalize(item.label));
+    }
+    const missing = ids.filter((id) => !labels.has(id));
+    if (missing.length > 0) {
+      return { issues: [{ path: "$", message: `missing labels for ${missing.join(", ")}` }] };
+    }
+    return { value: labels };
+  };
+}
+
+/** Names every theme with one structured LLM call; top terms and examples are the evidence. */
+async function labelThemesWithLlm(
+  provider: LlmProvider,
+  themes: Theme[],
+  options: ThemeIndexOptions,
+  prompts: PromptSet,
+): Promise<Theme[]> {
+  const evidence = themes
+    .map((theme) => {
+      const examples = theme.examples.map((example) => `  - "${example.snippet}"`);
+      return [`- id=${theme.id}; words=${theme.topTerms.join(", ")}`, ...examples].join("\n");
+    })
+    .join("\n");
+  const prompt = renderPrompt(prompts.templates.theme_labels, { ...prompts.variables, evidence });
+
+  logLlmInfo("theme_labels.request", { model: options.model, promptChars: prompt.length, themes: themes.length });
+
+  const labels = await generateStructured(provider, {
+    purpose: "theme_labels",
+    model: options.model,
+    prompt,
+    maxOutputTokens: 800,
+    schemaName: "theme_labels",
+    schema: THEME_LABELS_SCHEMA,
+    finalize: finalizeThemeLabels(themes.map((theme) => theme.id)),
+    errorCode: "invalid_theme_labels",
+    repairTemplate: prompts.templates.repair,
+    seed: options.seed,
+    signal: options.signal,
+  });
+  return themes.map((theme) => ({ ...theme, label: labels.get(theme.id) ?? theme.label }));
+}
+
+/** Embeds `posts` (through the embedding store), clusters them into themes and labels the themes. */
+export async function buildThemeIndex(posts: IndexedPost[], options: ThemeIndexOptions): Promise<ThemeIndex> {
+  if (!options.provider && !options.apiKey) {
+    throw new Error("missing_api_key");
+  }
+  if (posts.length === 0) {
+    throw new Error("empty_posts");
+  }
+
+  const baseProvider = options.provider ?? withRetries(createOpenAiProvider({ apiKey: options.apiKey ?? "" }));
+  const provider = options.onUsage ? withUsageTracking(baseProvider, options.onUsage) : baseProvider;
+  const embeddings = await embedWithStore(
+    options.embeddingStore,
+    posts.map((post) => truncate(post.text, 900)),
+    async (texts) => {
+      const result: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const chunk = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+        result.push(...(await provider.embed(options.embeddingModel, chunk, options.signal)).embeddings);
+      }
+      return result;
+    },
+  );
+
+  const index = clusterThemes(posts, embeddings, options);
+  if (options.labels !== "llm") {
+    return index;
+  }
+  const prompts = options.prompts ?? (await loadPromptSet());
+  return { ...index, labeledWith: "llm", themes: await labelThemesWithLlm(provider, index.themes, options, prompts) };
+}
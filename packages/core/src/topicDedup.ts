@@ -0,0 +1,82 @@
+import { cosineSimilarity } from "./retriever";
+
+/** Where a rejected topic's near-duplicate came from. */
+export type TopicCollisionKind = "previous_queue" | "own_post" | "plan";
+
+/** A topic or post new topics must not repeat. */
+export interface TopicReference {
+  kind: TopicCollisionKind;
+  /** Topic of a queue item or plan item, text of an own post. */
+  text: string;
+  embedding: number[];
+  queueId?: string;
+  postId?: string;
+  /** Rank of the colliding item in its queue or in the deduplicated plan. */
+  rank?: number;
+}
+
+export interface TopicCollision extends Omit<TopicReference, "embedding"> {
+  /** Cosine similarity of the embeddings; 1 for an exact (case- and space-insensitive) match. */
+  similarity: number;
+}
+
+export interface TopicDedupResult<T> {
+  kept: T[];
+  rejected: Array<{ item: T; collidesWith: TopicCollision }>;
+}
+
+export interface TopicDedupItem {
+  topic: string;
+  embedding: number[];
+}
+
+export const DEFAULT_TOPIC_DEDUP_THRESHOLD = 0.85;
+
+function normalizeTopic(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function closest(topic: string, embedding: number[], references: TopicReference[]): TopicCollision | null {
+  const normalized = normalizeTopic(topic);
+  let best: TopicCollision | null = null;
+  for (const { embedding: referenceEmbedding, ...reference } of references) {
+    const similarity =
+      normalizeTopic(reference.text) === normalized ? 1 : cosineSimilarity(embedding, referenceEmbedding);
+    if (!best || similarity > best.similarity) {
+      best = { ...reference, similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Drops items whose topic is a near-duplicate (similarity >= `threshold`) of
+ * a reference (previous queues, own posts), then of an item kept before it.
+ * Each rejection names the most similar colliding item; order is preserved.
+ */
+export function dedupeTopics<T extends TopicDedupItem>(
+  items: T[],
+  references: TopicReference[],
+  threshold = DEFAULT_TOPIC_DEDUP_THRESHOLD,
+): TopicDedupResult<T> {
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error(`invalid_topic_dedup_threshold: ${threshold}`);
+  }
+
+  const kept: T[] = [];
+  const rejected: TopicDedupResult<T>["rejected"] = [];
+  const planReferences: TopicReference[] = [];
+  for (const item of items) {
+    // Сначала внешние источники, и только потом темы этого же плана.
+    const external = closest(item.topic, item.embedding, references);
+    const collision =
+      external && external.similarity >= threshold ? external : closest(item.topic, item.embedding, planReferences);
+    if (collision && collision.similarity >= threshold) {
+      rejected.push({ item, collidesWith: collision });
+      continue;
+    }
+    kept.push(item);
+    planReferences.push({ kind: "plan", text: item.topic, embedding: item.embedding, rank: kept.length });
+  }
+  return { kept, rejected };
+}
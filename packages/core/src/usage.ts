@@ -0,0 +1,204 @@
+import type { LlmProvider, LlmUsage } from "./llmProvider";
+
+export type LlmCallKind = "text" | "embedding";
+
+export interface LlmUsageEntry {
+  at: string;
+  kind: LlmCallKind;
+  /** Pipeline step for text calls (`topic_seeds`, `plan`, `draft`), `embedding` otherwise. */
+  purpose: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageListener = (entry: LlmUsageEntry) => void;
+
+/** USD per 1M tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+/** One metered API request: every LLM call made while serving it. */
+export interface UsageRecord {
+  requestId: string;
+  route: string;
+  startedAt: string;
+  status: "ok" | "error";
+  calls: LlmUsageEntry[];
+}
+
+export interface UsageTotals {
+  requests: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  costUsd: number;
+  /** Calls whose model is missing from the price table; not included in `costUsd`. */
+  unpricedCalls: number;
+}
+
+export interface UsagePeriod extends UsageTotals {
+  /** UTC date (`YYYY-MM-DD`) of the day, or of the Monday for weekly periods. */
+  start: string;
+}
+
+export interface UsageSummaryOptions {
+  now?: Date;
+  days?: number;
+  weeks?: number;
+}
+
+/**
+ * `LLM_PRICES` JSON (`{"model": {"input": 0.25, "output": 2}}`, USD per 1M
+ * tokens) on top of the defaults; a malformed table fails startup instead of
+ * silently reporting zero cost.
+ */
+export function parsePriceTable(raw: string | undefined): PriceTable {
+  if (!raw?.trim()) return { ...DEFAULT_PRICE_TABLE };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("invalid_llm_prices");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("invalid_llm_prices");
+  }
+  const table: PriceTable = { ...DEFAULT_PRICE_TABLE };
+  for (const [model, price] of Object.entries(parsed as Record<string, Partial<ModelPrice>>)) {
+    const input = price?.input;
+    const output = price?.output ?? 0;
+    if (typeof input !== "number" || typeof output !== "number" || input < 0 || output < 0) {
+      throw new Error(`invalid_llm_prices: ${model}`);
+    }
+    table[model] = { input, output };
+  }
+  return table;
+}
+
+/** `null` when the model has no price; dated snapshots (`gpt-5-mini-2025-08-07`) use the base model price. */
+export function estimateCostUsd(entry: LlmUsageEntry, prices: PriceTable): number | null {
+  const price = prices[entry.model] ?? prices[entry.model.replace(/-\d{4}-\d{2}-\d{2}$/, "")] ?? null;
+  if (!price) return null;
+  return (entry.inputTokens * price.input + entry.outputTokens * price.output) / 1_000_000;
+}
+
+/** Reports usage of every successful call to `onUsage`; calls without vendor usage are reported as 0 tokens. */
+export function withUsageTracking(provider: LlmProvider, onUsage: UsageListener): LlmProvider {
+  const report = (kind: LlmCallKind, purpose: string, model: string, usage: LlmUsage | undefined) =>
+    onUsage({
+      at: new Date().toISOString(),
+      kind,
+      purpose,
+      provider: provider.name,
+      model,
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+    });
+
+  return {
+    name: provider.name,
+    async generateText(request) {
+      const result = await provider.generateText(request);
+      report("text", request.purpose, request.model, result.usage);
+      return result;
+    },
+    async embed(model, inputs, signal) {
+      const result = await provider.embed(model, inputs, signal);
+      report("embedding", "embedding", model, result.usage);
+      return result;
+    },
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, calls: 0, inputTokens: 0, outputTokens: 0, embeddingTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord, prices: PriceTable): void {
+  totals.requests += 1;
+  for (const call of record.calls) {
+    totals.calls += 1;
+    if (call.kind === "embedding") {
+      totals.embeddingTokens += call.inputTokens;
+    } else {
+      totals.inputTokens += call.inputTokens;
+      totals.outputTokens += call.outputTokens;
+    }
+    const cost = estimateCostUsd(call, prices);
+    if (cost === null) {
+      totals.unpricedCalls += 1;
+    } else {
+      totals.costUsd += cost;
+    }
+  }
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export function summarizeUsage(records: UsageRecord[], prices: PriceTable): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) addRecord(totals, record, prices);
+  return { ...totals, costUsd: roundUsd(totals.costUsd) };
+}
+
+function utcDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utcMonday(date: Date): string {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return utcDate(monday);
+}
+
+function periods(count: number, stepDays: number, last: string): string[] {
+  const starts: string[] = [];
+  const cursor = new Date(`${last}T00:00:00Z`);
+  for (let i = 0; i < count; i += 1) {
+    starts.unshift(utcDate(cursor));
+    cursor.setUTCDate(cursor.getUTCDate() - stepDays);
+  }
+  return starts;
+}
+
+/** Daily and weekly (Monday-based) totals in UTC, oldest first, including empty periods. */
+export function aggregateUsage(
+  records: UsageRecord[],
+  prices: PriceTable,
+  options: UsageSummaryOptions = {},
+): { daily: UsagePeriod[]; weekly: UsagePeriod[] } {
+  const now = options.now ?? new Date();
+  const daily = new Map(periods(options.days ?? 14, 1, utcDate(now)).map((start) => [start, emptyTotals()]));
+  const weekly = new Map(periods(options.weeks ?? 8, 7, utcMonday(now)).map((start) => [start, emptyTotals()]));
+
+  for (const record of records) {
+    const startedAt = new Date(record.startedAt);
+    if (Number.isNaN(startedAt.getTime())) continue;
+    const day = daily.get(utcDate(startedAt));
+    if (day) addRecord(day, record, prices);
+    const week = weekly.get(utcMonday(startedAt));
+    if (week) addRecord(week, record, prices);
+  }
+
+  const toList = (map: Map<string, UsageTotals>): UsagePeriod[] =>
+    Array.from(map, ([start, totals]) => ({ start, ...totals, costUsd: roundUsd(totals.costUsd) }));
+  return { daily: toList(daily), weekly: toList(weekly) };
+}
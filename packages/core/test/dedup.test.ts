@@ -0,0 +1,67 @@
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { assignDuplicateClusters, takeOnePerCluster } from "../src/dedup";
+import { makePost } from "./posts";
+import { loadHistoryFromDir } from "../src/history";
+
+const REGATTA_TEXT =
+  "Итоги осенней регаты в Эгейском море: шесть лодок, три гонки и один сломанный спинакер. Рассказываем, что пошло не так";
+
+test("loadHistoryFromDir keeps one copy of a post exported twice", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-dedup-"));
+  const writeExport = (name: string, ids: string[]) =>
+    writeFile(
+      path.join(tmpRoot, "own", name),
+      JSON.stringify({
+        channel: "Sail Away",
+        platform: "telegram",
+        posts: ids.map((id) => ({ id, published_at: `2026-01-0${id}T10:00:00Z`, text: `Пост номер ${id}` })),
+      }),
+      "utf-8",
+    );
+  await mkdir(path.join(tmpRoot, "own"), { recursive: true });
+  await writeExport("2025-12.json", ["1", "2", "3"]);
+  await writeExport("2026-01.json", ["3", "4"]);
+
+  const posts = await loadHistoryFromDir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(
+    posts.map((post) => post.id),
+    ["4", "3", "2", "1"],
+  );
+});
+
+test("assignDuplicateClusters groups reposts under the earliest post", () => {
+  const posts = assignDuplicateClusters([
+    makePost({ id: "10", text: REGATTA_TEXT, published_at: "2026-01-07T09:00:00Z", channel: "Competitor", kind: "similar" }),
+    makePost({ id: "11", text: `${REGATTA_TEXT}!` }),
+    makePost({ id: "12", text: "Совсем другой пост про выбор непромокаемой куртки для межсезонья и длинных переходов" }),
+    makePost({ id: "13", text: "Фото дня" }),
+    makePost({ id: "14", text: "Фото дня" }),
+  ]);
+
+  assert.equal(posts[0]?.duplicateClusterId, "Sail Away:11");
+  assert.equal(posts[1]?.duplicateClusterId, "Sail Away:11");
+  assert.equal(posts[2]?.duplicateClusterId, undefined);
+  assert.equal(posts[3]?.duplicateClusterId, undefined);
+  assert.equal(posts[4]?.duplicateClusterId, undefined);
+});
+
+test("takeOnePerCluster keeps the first post of each cluster", () => {
+  const posts = assignDuplicateClusters([
+    makePost({ id: "1", text: REGATTA_TEXT }),
+    makePost({ id: "2", channel: "Competitor", text: REGATTA_TEXT }),
+    makePost({ id: "3", text: "Как выбрать яхту для первого чартера и не переплатить за лишние опции в марине" }),
+  ]);
+
+  const picked = takeOnePerCluster(posts, (post) => post, 2);
+
+  assert.deepEqual(
+    picked.map((post) => `${post.channel}:${post.id}`),
+    ["Sail Away:1", "Sail Away:3"],
+  );
+});
@@ -1,7 +1,16 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { buildDraftPostRag, buildReferencesForTopic } from "../src/draft";
+import {
+  buildDraftPostRag,
+  buildReferencesForTopic,
+  explainDraftReferences,
+  explainReferencesForTopic,
+} from "../src/draft";
 import type { IndexedPost } from "../src/history";
+import { createFakeProvider } from "../src/providers/fake";
+import type { LlmUsageEntry } from "../src/usage";
+import { fixtureProvider } from "./llmFixtures";
+import { makePost } from "./posts";
 
 const samplePost: IndexedPost = {
   id: "p1",
@@ -11,6 +20,8 @@ const samplePost: IndexedPost = {
   text: "Test post text",
   media: [],
   metrics: { views: 10, reactions: 2 },
+  kind: "own",
+  sourceFile: "/tmp/history/own-channel/own.json",
 };
 
 test("buildDraftPostRag throws missing_api_key when apiKey is empty", async () => {
@@ -51,6 +62,7 @@ test("buildReferencesForTopic prefers posts lexically matching topic", () => {
       text: "Аптечка на яхте: что взять для первой помощи",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/silavetrasila.json",
     },
     {
@@ -61,6 +73,7 @@ test("buildReferencesForTopic prefers posts lexically matching topic", () => {
       text: "Что взять с собой в путешествие: одежда и обувь",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/silavetrasila.json",
     },
   ];
@@ -73,7 +86,7 @@ test("buildReferencesForTopic prefers posts lexically matching topic", () => {
   assert.equal(refs[0]?.id, "101");
 });
 
-test("buildReferencesForTopic ignores non-similar sources", () => {
+test("buildReferencesForTopic ignores own-channel posts", () => {
   const topic = "Аптечка на яхте";
   const topicEmbedding = [1, 0];
   const posts: IndexedPost[] = [
@@ -85,6 +98,7 @@ test("buildReferencesForTopic ignores non-similar sources", () => {
       text: "Аптечка для перехода",
       media: [],
       metrics: {},
+      kind: "own",
       sourceFile: "/tmp/history/own-channel/sail_away.json",
     },
     {
@@ -95,6 +109,7 @@ test("buildReferencesForTopic ignores non-similar sources", () => {
       text: "Аптечка для яхтинга и безопасность",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/yachtfitclub.json",
     },
   ];
@@ -119,6 +134,7 @@ test("buildReferencesForTopic returns all truly similar posts", () => {
       text: "Новичкам в яхтинге: базовые советы",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -129,6 +145,7 @@ test("buildReferencesForTopic returns all truly similar posts", () => {
       text: "Яхтинг для новичков: что взять в первую поездку",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -139,6 +156,7 @@ test("buildReferencesForTopic returns all truly similar posts", () => {
       text: "Первые шаги в яхтинге",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -149,6 +167,7 @@ test("buildReferencesForTopic returns all truly similar posts", () => {
       text: "Вводный гид по яхтингу для путешественников",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/b.json",
     },
   ];
@@ -179,6 +198,7 @@ test("buildReferencesForTopic keeps semantic priority when lexical signal is clo
       text: "Что взять в путешествие",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -189,6 +209,7 @@ test("buildReferencesForTopic keeps semantic priority when lexical signal is clo
       text: "Аптечка и первая помощь на яхте",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/b.json",
     },
   ];
@@ -219,6 +240,7 @@ test("buildReferencesForTopic applies must/exclude keywords", () => {
       text: "Аптечка и лекарства в море",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -229,6 +251,7 @@ test("buildReferencesForTopic applies must/exclude keywords", () => {
       text: "Список одежды в поездку",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/b.json",
     },
     {
@@ -239,6 +262,7 @@ test("buildReferencesForTopic applies must/exclude keywords", () => {
       text: "Аптечка и реклама казино",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/c.json",
     },
   ];
@@ -270,6 +294,7 @@ test("buildReferencesForTopic returns empty when nothing is truly similar", () =
       text: "Лучшие пляжи и коктейли у берега",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -280,6 +305,7 @@ test("buildReferencesForTopic returns empty when nothing is truly similar", () =
       text: "Вечеринка на катамаране и музыка",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/b.json",
     },
   ];
@@ -307,6 +333,7 @@ test("buildReferencesForTopic uses mustHaveSynonyms for topic variants", () => {
       text: "Набор первой помощи на борту: базовый список",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/a.json",
     },
     {
@@ -317,6 +344,7 @@ test("buildReferencesForTopic uses mustHaveSynonyms for topic variants", () => {
       text: "Музыка и вечеринки в марине",
       media: [],
       metrics: {},
+      kind: "similar",
       sourceFile: "/tmp/history/similar/b.json",
     },
   ];
@@ -333,3 +361,311 @@ test("buildReferencesForTopic uses mustHaveSynonyms for topic variants", () => {
 
   assert.equal(refs[0]?.id, "s1");
 });
+
+test("buildReferencesForTopic returns one reference per duplicate cluster", () => {
+  const repost = (id: string, channel: string): IndexedPost => ({
+    id,
+    channel,
+    published_at: "2026-02-01T00:00:00.000Z",
+    text: "Аптечка на яхте: что взять для первой помощи",
+    kind: "similar",
+    sourceFile: `/tmp/history/similar/${channel}.json`,
+    duplicateClusterId: "Silavetra:301",
+  });
+  const posts = [repost("301", "Silavetra"), repost("77", "Reposter")];
+
+  const refs = buildReferencesForTopic("Аптечка на яхте", [1, 0], posts, [
+    [0.95, 0.05],
+    [0.95, 0.05],
+  ]);
+
+  assert.equal(refs.length, 1);
+  assert.equal(refs[0]?.id, "301");
+});
+
+test("explainReferencesForTopic reports the rejection reason of every candidate", () => {
+  const similar = (id: string, channel: string, text: string, duplicateClusterId?: string): IndexedPost => ({
+    id,
+    channel,
+    published_at: "2026-02-01T00:00:00.000Z",
+    text,
+    kind: "similar",
+    sourceFile: `/tmp/history/similar/${channel}.json`,
+    duplicateClusterId,
+  });
+  const posts = [
+    similar("301", "Silavetra", "Аптечка на яхте: что взять для первой помощи", "Silavetra:301"),
+    similar("77", "Reposter", "Аптечка на яхте: что взять для первой помощи", "Silavetra:301"),
+    similar("5", "Weather", "Погода и ветер на переходе"),
+    similar("6", "Marinas", "Марины Хорватии"),
+    { ...samplePost, id: "own-1", text: "Аптечка на яхте" },
+  ];
+  const embeddings = [
+    [0.95, 0.05],
+    [0.95, 0.05],
+    [1, 0],
+    [0, 1],
+    [1, 0],
+  ];
+
+  const result = explainReferencesForTopic("Аптечка на яхте", [1, 0], posts, embeddings, {
+    mustHaveKeywords: ["аптечка"],
+  });
+
+  assert.deepEqual(result.thresholds, { minScore: 0.45, minLexical: 0.06 });
+  assert.deepEqual(
+    result.candidates.map((candidate) => [candidate.id, candidate.rank, candidate.rejectedBy]),
+    [
+      ["301", 1, null],
+      ["77", null, "duplicate_cluster"],
+      ["5", null, "min_lexical"],
+      ["6", null, "min_score"],
+    ],
+  );
+  assert.ok((result.candidates[0]?.components.mustHave ?? 0) > 0);
+  assert.equal(result.candidates[2]?.components.lexical, 0);
+  assert.deepEqual(
+    buildReferencesForTopic("Аптечка на яхте", [1, 0], posts, embeddings, { mustHaveKeywords: ["аптечка"] }).map(
+      (ref) => ref.id,
+    ),
+    ["301"],
+  );
+});
+
+test("buildReferencesForTopic matches inflected forms of must-have keywords", () => {
+  const similar = (id: string, text: string): IndexedPost => ({
+    id,
+    channel: `channel_${id}`,
+    published_at: "2026-02-01T00:00:00.000Z",
+    text,
+    kind: "similar",
+    sourceFile: `/tmp/history/similar/channel_${id}.json`,
+  });
+  const posts = [similar("1", "Неделя на катамаране вдоль побережья"), similar("2", "Неделя на яхте вдоль побережья")];
+
+  const refs = buildReferencesForTopic(
+    "Катамараны для новичков",
+    [1, 0],
+    posts,
+    [
+      [0.9, 0.1],
+      [0.9, 0.1],
+    ],
+    { mustHaveKeywords: ["катамараны"] },
+  );
+
+  assert.deepEqual(
+    refs.map((ref) => ref.id),
+    ["1"],
+  );
+});
+
+test("explainDraftReferences embeds only the topic and similar-channel posts", async () => {
+  const provider = createFakeProvider();
+  const posts: IndexedPost[] = [
+    { ...samplePost, id: "1", text: "Аптечка на яхте" },
+    { ...samplePost, id: "2", kind: "similar", channel: "silavetrasila", text: "Аптечка для шкипера" },
+  ];
+
+  const result = await explainDraftReferences(posts, "Аптечка", { provider, embeddingModel: "fake-embedding" });
+
+  assert.deepEqual(provider.embeddedTexts.sort(), ["Аптечка", "Аптечка для шкипера"]);
+  assert.deepEqual(
+    result.candidates.map((candidate) => candidate.id),
+    ["2"],
+  );
+});
+
+test("buildDraftPostRag runs offline with the fake provider", async () => {
+  const posts: IndexedPost[] = [
+    { ...samplePost, id: "1", text: "Аптечка на яхте: бинты, пластыри и таблетки от укачивания" },
+    { ...samplePost, id: "2", text: "Как выбрать марину для первой стоянки" },
+    {
+      ...samplePost,
+      id: "3",
+      channel: "silavetrasila",
+      kind: "similar",
+      sourceFile: "/tmp/history/similar/silavetrasila.json",
+      text: "Аптечка на яхте: что взять для первой помощи в море",
+    },
+  ];
+  const provider = createFakeProvider({
+    responses: {
+      draft: (request) =>
+        JSON.stringify({
+          text: `Черновик по теме. ${request.prompt.includes("id=1") ? "С контекстом." : ""}`,
+          imageOptions: ["Аптечка", "Палуба", "Море"],
+          sourcePostIds: ["1"],
+          topicKeywords: ["аптечка", "яхта"],
+        }),
+    },
+  });
+
+  const usage: LlmUsageEntry[] = [];
+  const draft = await buildDraftPostRag(posts, "Аптечка на яхте", {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+    onUsage: (entry) => usage.push(entry),
+  });
+
+  assert.equal(draft.text, "Черновик по теме. С контекстом.");
+  assert.deepEqual(usage.map((entry) => entry.purpose).sort(), ["draft", "embedding", "embedding"]);
+  assert.ok(usage.every((entry) => entry.provider === "fake" && entry.inputTokens > 0));
+  assert.deepEqual(draft.sourcePostIds, ["1"]);
+  assert.deepEqual(draft.imageOptions, ["Аптечка", "Палуба", "Море"]);
+  assert.equal(draft.references[0]?.id, "3");
+  assert.equal(draft.references[0]?.origin, "similar");
+  assert.equal(provider.embeddedTexts.filter((text) => text.startsWith("Аптечка на яхте: что")).length, 1);
+});
+
+const fixturePosts: IndexedPost[] = [
+  {
+    id: "11",
+    channel: "Sail Away",
+    kind: "own",
+    published_at: "2026-01-20T10:00:00.000Z",
+    text: "Собираем аптечку в первый яхтенный поход: бинты, антисептик, таблетки от укачивания и солнцезащитный крем.",
+    sourceFile: "/tmp/history/own-channel/own.json",
+  },
+  {
+    id: "12",
+    channel: "Sail Away",
+    kind: "own",
+    published_at: "2026-01-13T10:00:00.000Z",
+    text: "Как выбрать марину для первой ночевки: электричество, душ, защита от ветра и цена стоянки.",
+    sourceFile: "/tmp/history/own-channel/own.json",
+  },
+  {
+    id: "501",
+    channel: "silavetrasila",
+    kind: "similar",
+    published_at: "2026-01-15T10:00:00.000Z",
+    text: "Аптечка на яхте: что взять для первой помощи в море и как хранить лекарства во влажности.",
+    sourceFile: "/tmp/history/similar/silavetrasila.json",
+  },
+];
+
+test("buildDraftPostRag replays the recorded pipeline", async () => {
+  const draft = await buildDraftPostRag(fixturePosts, "Аптечка на яхте", {
+    provider: fixtureProvider("draft-pipeline"),
+    model: "gpt-5-mini",
+    embeddingModel: "text-embedding-3-small",
+    topK: 2,
+  });
+
+  assert.ok(draft.text.length > 0);
+  assert.equal(draft.promptVersion, "ru/draft@1");
+  assert.ok(draft.sourcePostIds.every((id) => fixturePosts.some((post) => post.id === id)));
+  assert.ok(draft.references.every((ref) => ref.channel === "silavetrasila"));
+});
+
+test(
+  "buildDraftPostRag fails on a stale fixture instead of calling the API",
+  { skip: process.env.LLM_FIXTURES === "record" },
+  async () => {
+    await assert.rejects(
+      () =>
+        buildDraftPostRag(fixturePosts, "Морская болезнь", {
+          provider: fixtureProvider("draft-pipeline"),
+          model: "gpt-5-mini",
+          embeddingModel: "text-embedding-3-small",
+          topK: 2,
+        }),
+      /llm_fixture_stale/,
+    );
+  },
+);
+
+test("buildReferencesForTopic boosts and marks posts the model cited", () => {
+  const similar = (id: string, text: string): IndexedPost => ({
+    id,
+    channel: `channel_${id}`,
+    published_at: "2026-02-01T00:00:00.000Z",
+    text,
+    kind: "similar",
+    sourceFile: `/tmp/history/similar/channel_${id}.json`,
+  });
+  const posts = [similar("1", "Погода и ветер на переходе"), similar("2", "Аптечка на яхте: что взять")];
+  const embeddings = [
+    [1, 0],
+    [0.9, 0.1],
+  ];
+
+  const hints = { mustHaveKeywords: ["аптечка"] };
+  const uncited = buildReferencesForTopic("Аптечка на яхте", [1, 0], posts, embeddings, hints);
+  assert.deepEqual(
+    uncited.map((ref) => [ref.id, ref.origin]),
+    [["2", "similar"]],
+  );
+
+  const cited = buildReferencesForTopic("Аптечка на яхте", [1, 0], posts, embeddings, {
+    ...hints,
+    citedPostKeys: ["channel_1:1"],
+  });
+  assert.deepEqual(
+    cited.map((ref) => [ref.id, ref.origin]).sort(),
+    [
+      ["1", "cited"],
+      ["2", "similar"],
+    ],
+  );
+});
+
+test("buildReferencesForTopic marks a cited post, not another channel's post with the same id", () => {
+  const posts = [
+    makePost({ id: "7", channel: "Cited", kind: "similar", text: "Аптечка на яхте: бинты и пластыри" }),
+    makePost({ id: "7", channel: "Other", kind: "similar", text: "Погода и ветер на переходе" }),
+  ];
+  const embeddings = [
+    [1, 0],
+    [0.9, 0.1],
+  ];
+
+  const result = explainReferencesForTopic("Аптечка на яхте", [1, 0], posts, embeddings, {
+    mustHaveKeywords: ["аптечка"],
+    citedPostKeys: ["Cited:7"],
+  });
+
+  assert.deepEqual(
+    result.candidates.map((candidate) => [candidate.channel, candidate.origin, candidate.rejectedBy]),
+    [
+      ["Cited", "cited", null],
+      ["Other", "similar", "min_lexical"],
+    ],
+  );
+});
+
+test("buildReferencesForTopic keeps a long reference matching a single keyword", () => {
+  const similar = (id: string, text: string) => makePost({ id, channel: `channel_${id}`, kind: "similar", text });
+  const posts = [
+    similar("1", "Аптечка на яхте: бинты, пластыри и таблетки от укачивания"),
+    similar("2", "Погода и ветер на переходе через залив"),
+    similar(
+      "3",
+      "Что взять на неделю в море: одежда, обувь, солнцезащитный крем, документы, наличные, зарядки и лекарства, " +
+        "которые вы принимаете постоянно",
+    ),
+    similar("4", "Лучшие марины Хорватии для стоянки"),
+  ];
+  const embeddings = [
+    [1, 0],
+    [0.8, 0.2],
+    [0.85, 0.15],
+    [0.7, 0.3],
+  ];
+
+  const result = explainReferencesForTopic("Аптечка на яхте", [1, 0], posts, embeddings, {
+    topicKeywords: ["аптечка", "лекарства", "бинты", "укачивание", "первая помощь", "яхта"],
+    mustHaveKeywords: ["аптечка"],
+  });
+  const byId = new Map(result.candidates.map((candidate) => [candidate.id, candidate]));
+
+  // Одно слово из семи в длинном посте: ниже прежнего порога 0.12, но это все еще референс.
+  const borderline = byId.get("3");
+  assert.ok(borderline && borderline.components.lexical < 0.12);
+  assert.equal(borderline?.rejectedBy, null);
+  assert.equal(byId.get("2")?.rejectedBy, "min_lexical");
+  assert.equal(byId.get("4")?.rejectedBy, "min_lexical");
+});
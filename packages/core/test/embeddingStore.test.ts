@@ -0,0 +1,86 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { embedWithStore, openEmbeddingStore } from "../src/embeddingStore";
+
+function fakeEmbedder(calls: string[][]) {
+  return async (texts: string[]) => {
+    calls.push(texts);
+    return texts.map((text) => [text.length, 1, 0.5]);
+  };
+}
+
+test("embedWithStore embeds only cache misses", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-embeddings-"));
+  const store = await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+  const calls: string[][] = [];
+
+  const first = await embedWithStore(store, ["Яхта", "Марина", "Яхта"], fakeEmbedder(calls));
+  const second = await embedWithStore(store, ["Марина", "  Яхта ", "Якорь"], fakeEmbedder(calls));
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(calls, [["Яхта", "Марина"], ["Якорь"]]);
+  assert.deepEqual(first[0], first[2]);
+  assert.deepEqual(second[1], first[0]);
+});
+
+test("openEmbeddingStore persists entries between openings", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-embeddings-"));
+  const calls: string[][] = [];
+
+  const store = await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+  await embedWithStore(store, ["Аптечка на яхте"], fakeEmbedder(calls));
+
+  const reopened = await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+  const cached = await embedWithStore(reopened, ["Аптечка на яхте"], fakeEmbedder(calls));
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(calls.length, 1);
+  assert.deepEqual(cached[0], [15, 1, 0.5]);
+});
+
+test("openEmbeddingStore drops entries of another embedding model", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-embeddings-"));
+  const calls: string[][] = [];
+
+  const oldStore = await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+  await embedWithStore(oldStore, ["Аптечка на яхте"], fakeEmbedder(calls));
+
+  const newStore = await openEmbeddingStore(tmpRoot, "text-embedding-3-large");
+  await embedWithStore(newStore, ["Аптечка на яхте"], fakeEmbedder(calls));
+  const files = await readdir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(calls.length, 2);
+  assert.deepEqual(files, ["embeddings-text-embedding-3-large.json"]);
+});
+
+test("openEmbeddingStore keeps other json files of a shared directory", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-embeddings-"));
+  await writeFile(path.join(tmpRoot, "latest-queue.json"), "{}", "utf-8");
+
+  await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+  const files = await readdir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(files, ["latest-queue.json"]);
+});
+
+test("concurrent flushes keep every entry", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-embeddings-"));
+  const store = await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+
+  store.set("Яхта", [1, 0, 0]);
+  const first = store.flush();
+  store.set("Марина", [0, 1, 0]);
+  await Promise.all([first, store.flush()]);
+
+  const reopened = await openEmbeddingStore(tmpRoot, "text-embedding-3-small");
+  const files = await readdir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(reopened.size(), 2);
+  assert.deepEqual(files, ["embeddings-text-embedding-3-small.json"]);
+});
@@ -0,0 +1,59 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createEngagementScorer, getReactionTotal, getWeightedReactions } from "../src/engagement";
+import { makePost } from "./posts";
+
+test("getReactionTotal falls back to summed metrics", () => {
+  assert.equal(getReactionTotal(makePost({ metrics: { reactions: 7 } })), 7);
+  assert.equal(
+    getReactionTotal(
+      makePost({
+        reactions: [
+          { type: "emoji", emoji: "👍", count: 3 },
+          { type: "emoji", emoji: "🔥", count: 2 },
+        ],
+      }),
+    ),
+    5,
+  );
+});
+
+test("getWeightedReactions discounts negative and boosts paid reactions", () => {
+  const post = makePost({
+    reactions: [
+      { type: "emoji", emoji: "👍", count: 4 },
+      { type: "emoji", emoji: "👎", count: 4 },
+      { type: "paid", emoji: "⭐", count: 1 },
+    ],
+  });
+  assert.equal(getWeightedReactions(post), 4 + 2 + 3);
+});
+
+test("createEngagementScorer rewards reaction rate when views are known", () => {
+  const viral = makePost({ id: "a", views: 100, metrics: { reactions: 20 } });
+  const diluted = makePost({ id: "b", views: 10000, metrics: { reactions: 20 } });
+  const score = createEngagementScorer([viral, diluted]);
+
+  assert.ok(score(viral) > 0 && score(viral) <= 1);
+  assert.ok(score(diluted) > 0 && score(diluted) <= 1);
+  assert.ok(score(viral) > score(diluted));
+});
+
+test("createEngagementScorer uses reactions only without views", () => {
+  const top = makePost({ id: "a", metrics: { reactions: 50 } });
+  const low = makePost({ id: "b", metrics: { reactions: 5 } });
+  const score = createEngagementScorer([top, low]);
+
+  assert.equal(score(top), 1);
+  assert.ok(score(low) < score(top));
+});
+
+test("createEngagementScorer keeps posts with and without views on one scale", () => {
+  const viral = makePost({ id: "a", views: 100, metrics: { reactions: 20 } });
+  const diluted = makePost({ id: "b", views: 10000, metrics: { reactions: 20 } });
+  const unviewed = makePost({ id: "c", metrics: { reactions: 20 } });
+  const score = createEngagementScorer([viral, diluted, unviewed]);
+
+  assert.ok(score(unviewed) < score(viral));
+  assert.ok(score(unviewed) > score(diluted));
+});
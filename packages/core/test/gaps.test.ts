@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { findContentGaps } from "../src/gaps";
+import type { IndexedPost } from "../src/history";
+import { clusterThemes } from "../src/themes";
+import { makePost } from "./posts";
+
+const posts: IndexedPost[] = [
+  makePost({ id: "1", text: "Аптечка на яхте" }),
+  makePost({ id: "2", text: "Что положить в аптечку" }),
+  makePost({ id: "3", channel: "Competitor", kind: "similar", text: "Аптечка шкипера", metrics: { reactions: 2 } }),
+  makePost({ id: "4", channel: "Competitor", kind: "similar", text: "Марины Хорватии", metrics: { reactions: 5 } }),
+  makePost({ id: "5", channel: "Competitor", kind: "similar", text: "Марины Греции", metrics: { reactions: 40 } }),
+  makePost({ id: "6", channel: "Competitor", kind: "similar", text: "Стоянка в марине", metrics: { reactions: 1 } }),
+];
+const embeddings = [
+  [1, 0],
+  [1, 0.1],
+  [0.9, 0],
+  [0, 1],
+  [0.1, 1],
+  [0, 0.9],
+];
+
+test("findContentGaps ranks themes competitors cover and the own channel does not", () => {
+  const themes = clusterThemes(posts, embeddings, { count: 2 });
+  const gaps = findContentGaps(posts, themes);
+
+  assert.equal(gaps.length, 1);
+  const [marinas] = gaps;
+  assert.equal(marinas?.ownPosts, 0);
+  assert.equal(marinas?.similarPosts, 3);
+  assert.equal(marinas?.similarShare, 0.75);
+  assert.equal(marinas?.ownShare, 0);
+  assert.equal(marinas?.ownEngagement, 0);
+  assert.ok((marinas?.score ?? 0) > 0.75);
+  assert.deepEqual(
+    marinas?.examples.map((example) => example.id),
+    ["5", "4", "6"],
+  );
+  assert.equal(marinas?.examples[0]?.engagement, 1);
+
+  assert.deepEqual(findContentGaps(posts, themes, { limit: 0 }), []);
+  assert.deepEqual(
+    findContentGaps(
+      posts.filter((post) => post.kind === "own"),
+      themes,
+    ),
+    [],
+  );
+});
+
+test("findContentGaps ranks a theme the own audience engages with less higher", () => {
+  const mixed = [
+    makePost({ id: "1", text: "Аптечка на яхте", metrics: { reactions: 1 } }),
+    makePost({ id: "2", text: "Марины Хорватии", metrics: { reactions: 50 } }),
+    makePost({ id: "3", text: "Ветер и погода", metrics: { reactions: 10 } }),
+    makePost({ id: "4", text: "Прогноз ветра", metrics: { reactions: 10 } }),
+    makePost({ id: "5", channel: "Competitor", kind: "similar", text: "Аптечка шкипера", metrics: { reactions: 5 } }),
+    makePost({ id: "6", channel: "Competitor", kind: "similar", text: "Что в аптечке", metrics: { reactions: 5 } }),
+    makePost({ id: "7", channel: "Competitor", kind: "similar", text: "Марины Греции", metrics: { reactions: 5 } }),
+    makePost({ id: "8", channel: "Competitor", kind: "similar", text: "Стоянка в марине", metrics: { reactions: 5 } }),
+  ];
+  const vectors = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+    [0, 0.1, 1],
+    [1, 0.1, 0],
+    [1, 0, 0.1],
+    [0.1, 1, 0],
+    [0, 1, 0.1],
+  ];
+  const themes = clusterThemes(mixed, vectors, { count: 3 });
+
+  const gaps = findContentGaps(mixed, themes);
+
+  assert.deepEqual(
+    gaps.map((gap) => [gap.examples.map((example) => example.id).sort(), gap.ownShare, gap.similarShare]),
+    [
+      [["5", "6"], 0.25, 0.5],
+      [["7", "8"], 0.25, 0.5],
+    ],
+  );
+  assert.ok((gaps[0]?.ownEngagement ?? 1) < (gaps[1]?.ownEngagement ?? 0));
+  assert.equal(gaps[0]?.similarEngagement, gaps[1]?.similarEngagement);
+});
@@ -46,6 +46,140 @@ test("loadHistoryFromDir parses Telegram export format", async () => {
   assert.equal(posts[0]?.metrics?.reactions, 3);
 });
 
+test("loadHistoryFromDir keeps views, reactions, forwards, replies, edits and entities", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-history-"));
+  const historyDir = path.join(tmpRoot, "history", "similar");
+  await mkdir(historyDir, { recursive: true });
+
+  await writeFile(
+    path.join(historyDir, "channel.json"),
+    JSON.stringify({
+      name: "Test Channel",
+      type: "public_channel",
+      messages: [
+        {
+          id: 10,
+          type: "message",
+          date: "2026-01-05T10:00:00",
+          edited: "2026-01-05T11:00:00",
+          forwarded_from: "Other Channel",
+          reply_to_message_id: 7,
+          views: 1500,
+          text: ["Маршрут ", { type: "text_link", text: "здесь", href: "https://example.com" }, " #яхтинг"],
+          text_entities: [
+            { type: "plain", text: "Маршрут " },
+            { type: "text_link", text: "здесь", href: "https://example.com" },
+            { type: "hashtag", text: "#яхтинг" },
+          ],
+          reactions: [
+            { type: "emoji", count: 5, emoji: "👍" },
+            { type: "emoji", count: 2, emoji: "👎" },
+            { type: "custom_emoji", count: 1, document_id: "5368324170671202286" },
+          ],
+        },
+      ],
+    }),
+    "utf-8",
+  );
+
+  const posts = await loadHistoryFromDir(path.join(tmpRoot, "history"));
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  const post = posts[0];
+  assert.equal(post?.views, 1500);
+  assert.deepEqual(post?.metrics, { reactions: 8, views: 1500 });
+  assert.deepEqual(post?.reactions, [
+    { type: "emoji", emoji: "👍", count: 5 },
+    { type: "emoji", emoji: "👎", count: 2 },
+    { type: "custom_emoji", emoji: "5368324170671202286", count: 1 },
+  ]);
+  assert.equal(post?.forwarded_from, "Other Channel");
+  assert.equal(post?.reply_to_message_id, "7");
+  assert.equal(post?.edited, "2026-01-05T11:00:00");
+  assert.deepEqual(post?.text_entities, [
+    { type: "text_link", text: "здесь", href: "https://example.com" },
+    { type: "hashtag", text: "#яхтинг" },
+  ]);
+});
+
+test("loadHistoryFromDir merges album messages into one post", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-history-"));
+  const historyDir = path.join(tmpRoot, "history", "similar");
+  await mkdir(historyDir, { recursive: true });
+
+  await writeFile(
+    path.join(historyDir, "channel.json"),
+    JSON.stringify({
+      name: "Test Channel",
+      type: "public_channel",
+      messages: [
+        {
+          id: 20,
+          type: "message",
+          date: "2026-01-06T10:00:00",
+          grouped_id: 777,
+          photo: "photos/1.jpg",
+          views: 900,
+          text: "",
+          reactions: [{ type: "emoji", count: 2, emoji: "🔥" }],
+        },
+        {
+          id: 21,
+          type: "message",
+          date: "2026-01-06T10:00:01",
+          grouped_id: 777,
+          photo: "photos/2.jpg",
+          views: 950,
+          text: "Фото из марины",
+          reactions: [
+            { type: "emoji", count: 3, emoji: "🔥" },
+            { type: "emoji", count: 1, emoji: "👍" },
+          ],
+        },
+        {
+          id: 22,
+          type: "message",
+          date: "2026-01-06T10:00:02",
+          grouped_id: 777,
+          photo: "photos/3.jpg",
+          text: "",
+        },
+        {
+          id: 23,
+          type: "message",
+          date: "2026-01-06T12:00:00",
+          text: "Отдельный пост",
+        },
+        {
+          id: 24,
+          type: "message",
+          date: "2026-01-07T12:00:00",
+          grouped_id: 778,
+          photo: "photos/4.jpg",
+          text: "",
+        },
+      ],
+    }),
+    "utf-8",
+  );
+
+  const posts = await loadHistoryFromDir(path.join(tmpRoot, "history"));
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(posts.map((post) => post.id), ["23", "21"]);
+  const album = posts[1];
+  assert.equal(album?.text, "Фото из марины");
+  assert.equal(album?.published_at, "2026-01-06T10:00:00");
+  assert.deepEqual(album?.media, ["photos/1.jpg", "photos/2.jpg", "photos/3.jpg"]);
+  assert.deepEqual(album?.album_message_ids, ["20", "21", "22"]);
+  assert.deepEqual(album?.reactions, [
+    { type: "emoji", emoji: "🔥", count: 5 },
+    { type: "emoji", emoji: "👍", count: 1 },
+  ]);
+  assert.deepEqual(album?.metrics, { reactions: 6, views: 950 });
+  assert.equal(album?.views, 950);
+});
+
 test("loadHistoryFromDir parses normalized internal format", async () => {
   const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-history-"));
   const historyDir = path.join(tmpRoot, "history", "own-channel");
@@ -74,6 +208,41 @@ test("loadHistoryFromDir parses normalized internal format", async () => {
   assert.equal(posts.length, 1);
   assert.equal(posts[0]?.id, "p1");
   assert.equal(posts[0]?.channel, "own");
+  assert.equal(posts[0]?.kind, "own");
+});
+
+test("loadHistoryFromDir sets channel kind from folder and manifest", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-history-"));
+  const historyRoot = path.join(tmpRoot, "history");
+  const writeChannel = async (relativePath: string, channel: string) => {
+    const filePath = path.join(historyRoot, relativePath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(
+      filePath,
+      JSON.stringify({
+        channel,
+        platform: "telegram",
+        posts: [{ id: "1", published_at: "2026-01-10T12:00:00Z", text: `Пост ${channel}` }],
+      }),
+      "utf-8",
+    );
+  };
+  await writeChannel("similar/a.json", "a");
+  await writeChannel("own-channel/own.json", "own");
+  await writeChannel("competitors/b.json", "b");
+  await writeChannel("competitors/partner.json", "partner");
+  await writeChannel("own-channel/similar/drafts.json", "drafts");
+  await writeFile(
+    path.join(historyRoot, "manifest.json"),
+    JSON.stringify({ channels: { partner: "own" }, paths: { competitors: "similar" } }),
+    "utf-8",
+  );
+
+  const posts = await loadHistoryFromDir(historyRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  const kinds = Object.fromEntries(posts.map((post) => [post.channel, post.kind]));
+  assert.deepEqual(kinds, { a: "similar", own: "own", b: "similar", partner: "own", drafts: "own" });
 });
 
 test("loadHistoryFromDir throws on invalid schema", async () => {
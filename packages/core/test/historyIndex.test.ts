@@ -0,0 +1,180 @@
+import { mkdtemp, mkdir, rm, unlink, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { reindexHistory } from "../src/historyIndex";
+
+async function writeHistory(
+  filePath: string,
+  channel: string,
+  posts: Array<{ id: string; text: string }>,
+): Promise<void> {
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      channel,
+      platform: "telegram",
+      posts: posts.map((post) => ({ ...post, published_at: "2026-01-10T12:00:00Z" })),
+    }),
+    "utf-8",
+  );
+}
+
+test("reindexHistory upserts changed posts and skips unchanged files", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-reindex-"));
+  const historyDir = path.join(tmpRoot, "history", "own-channel");
+  await mkdir(historyDir, { recursive: true });
+  const filePath = path.join(historyDir, "own.json");
+
+  await writeHistory(filePath, "own", [
+    { id: "1", text: "Первый пост" },
+    { id: "2", text: "Второй пост" },
+  ]);
+  const initial = await reindexHistory(tmpRoot);
+
+  const unchanged = await reindexHistory(tmpRoot, initial.state);
+
+  await writeHistory(filePath, "own", [
+    { id: "2", text: "Второй пост (исправлен)" },
+    { id: "3", text: "Третий пост" },
+  ]);
+  const changed = await reindexHistory(tmpRoot, unchanged.state);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(initial.summary.added, 2);
+  assert.equal(unchanged.summary.filesParsed, 0);
+  assert.deepEqual(
+    { added: changed.summary.added, updated: changed.summary.updated, removed: changed.summary.removed },
+    { added: 1, updated: 1, removed: 1 },
+  );
+  assert.deepEqual(changed.posts.map((post) => post.id).sort(), ["2", "3"]);
+  assert.equal(initial.state.posts.size, 2);
+});
+
+test("reindexHistory drops posts of deleted files", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-reindex-"));
+  const similarDir = path.join(tmpRoot, "history", "similar");
+  await mkdir(similarDir, { recursive: true });
+  const aPath = path.join(similarDir, "a.json");
+  const bPath = path.join(similarDir, "b.json");
+
+  await writeHistory(aPath, "a", [{ id: "1", text: "Пост A" }]);
+  await writeHistory(bPath, "b", [{ id: "1", text: "Пост B" }]);
+  const initial = await reindexHistory(tmpRoot);
+
+  await unlink(aPath);
+  const result = await reindexHistory(tmpRoot, initial.state);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(result.summary.removed, 1);
+  assert.equal(result.summary.filesRemoved, 1);
+  assert.deepEqual(result.posts.map((post) => post.channel), ["b"]);
+});
+
+test("reindexHistory keeps a post another file still contains", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-reindex-"));
+  const historyDir = path.join(tmpRoot, "history");
+  await mkdir(historyDir, { recursive: true });
+  const exportPath = path.join(historyDir, "export.json");
+  const copyPath = path.join(historyDir, "copy.json");
+
+  await writeHistory(copyPath, "own", [{ id: "1", text: "Пост из копии" }]);
+  await writeHistory(exportPath, "own", [{ id: "1", text: "Пост из выгрузки" }]);
+  const initial = await reindexHistory(tmpRoot);
+  const owner = initial.posts[0]?.sourceFile;
+  const other = owner === exportPath ? copyPath : exportPath;
+
+  await unlink(owner ?? "");
+  const result = await reindexHistory(tmpRoot, initial.state);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(result.summary.removed, 0);
+  assert.equal(result.summary.filesRemoved, 1);
+  assert.equal(result.posts.length, 1);
+  assert.equal(result.posts[0]?.sourceFile, other);
+  assert.equal(result.posts[0]?.text, other === exportPath ? "Пост из выгрузки" : "Пост из копии");
+});
+
+test("reindexHistory skips invalid files and keeps their previously indexed posts", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-reindex-"));
+  const historyDir = path.join(tmpRoot, "history");
+  await mkdir(historyDir, { recursive: true });
+  const ownPath = path.join(historyDir, "own.json");
+  await writeHistory(ownPath, "own", [{ id: "1", text: "Пост" }]);
+  const initial = await reindexHistory(tmpRoot);
+
+  await writeFile(ownPath, "{not-valid-json", "utf-8");
+  await writeFile(path.join(historyDir, "broken.json"), JSON.stringify({ foo: "bar" }), "utf-8");
+  const result = await reindexHistory(tmpRoot, initial.state);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(result.posts.map((post) => post.id), ["1"]);
+  assert.equal(result.report.filesSkipped, 2);
+  assert.deepEqual(result.report.countsByCode, { invalid_json: 1, invalid_schema: 1 });
+});
+
+test("reindexHistory re-parses a CSV file when its manifest mapping is fixed", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-reindex-"));
+  const writeManifest = (text: string) =>
+    writeFile(
+      path.join(tmpRoot, "manifest.json"),
+      JSON.stringify({ csv: { "*": { channel: "Sail Away", columns: { id: "Post ID", published_at: "Date", text } } } }),
+      "utf-8",
+    );
+  await writeFile(path.join(tmpRoot, "dump.csv"), "Post ID,Date,Message\n1,2026-01-10,Текст поста\n", "utf-8");
+  await writeManifest("Text");
+  const broken = await reindexHistory(tmpRoot);
+
+  await writeManifest("Message");
+  const fixed = await reindexHistory(tmpRoot, broken.state);
+  const unchanged = await reindexHistory(tmpRoot, fixed.state);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(broken.report.filesSkipped, 1);
+  assert.equal(fixed.report.filesSkipped, 0);
+  assert.equal(fixed.summary.filesParsed, 1);
+  assert.deepEqual(
+    fixed.posts.map((post) => [post.channel, post.id, post.text]),
+    [["Sail Away", "1", "Текст поста"]],
+  );
+  assert.equal(unchanged.summary.filesParsed, 0);
+});
+
+test("reindexHistory reports posts that are skipped", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-reindex-"));
+  const historyDir = path.join(tmpRoot, "history");
+  await mkdir(historyDir, { recursive: true });
+  await writeFile(
+    path.join(historyDir, "own.json"),
+    JSON.stringify({
+      channel: "own",
+      platform: "telegram",
+      posts: [
+        { id: "1", published_at: "2026-01-10T12:00:00Z", text: "Нормальный пост" },
+        { id: "2", published_at: "вчера", text: "Пост без даты" },
+        { id: "1", published_at: "2026-01-11T12:00:00Z", text: "Дубль" },
+        { id: "3", published_at: "2026-01-12T12:00:00Z", text: "   " },
+        { published_at: "2026-01-12T12:00:00Z", text: "Без id" },
+      ],
+    }),
+    "utf-8",
+  );
+  await writeHistory(path.join(historyDir, "empty.json"), "empty", []);
+  await writeHistory(path.join(historyDir, "copy.json"), "own", [{ id: "1", text: "Нормальный пост" }]);
+
+  const { report } = await reindexHistory(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(report.postsAccepted, 1);
+  assert.equal(report.postsSkipped, 4);
+  assert.equal(report.postsDeduplicated, 1);
+  assert.equal(report.errors, 2);
+  assert.deepEqual(report.countsByCode, {
+    invalid_published_at: 1,
+    duplicate_id: 2,
+    empty_text: 1,
+    invalid_post: 1,
+    empty_channel: 1,
+  });
+});
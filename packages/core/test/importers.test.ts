@@ -0,0 +1,184 @@
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { loadHistoryFromDir } from "../src/history";
+import { reindexHistory } from "../src/historyIndex";
+import { parseCsvRows } from "../src/importers/csv";
+
+const TELEGRAM_HTML_PAGE = `<!DOCTYPE html>
+<html><body><div class="page_wrap">
+ <div class="page_header"><div class="content"><div class="text bold">
+Sail &amp; Away
+ </div></div></div>
+ <div class="page_body chat_page"><div class="history">
+  <div class="message service" id="message-1"><div class="body details">10 January 2026</div></div>
+  <div class="message default clearfix" id="message41">
+   <div class="body">
+    <div class="pull_right date details" title="10.01.2026 12:00:00 UTC+03:00">12:00</div>
+    <div class="from_name">Sail &amp; Away</div>
+    <div class="media_wrap clearfix">
+     <a class="photo_wrap clearfix pull_left" href="photos/photo_1@10-01-2026.jpg"><img class="photo" src="photos/photo_1@10-01-2026_thumb.jpg"></a>
+    </div>
+    <div class="text">Идем в <strong>Грецию</strong><br>Старт из <a href="https://example.com/marina">Афин</a> &#128674;</div>
+    <span class="reactions">
+     <span class="reaction"><span class="emoji">👍</span><span class="count">5</span></span>
+     <span class="reaction paid"><span class="emoji">⭐</span><span class="count">2</span></span>
+    </span>
+   </div>
+  </div>
+  <div class="message default clearfix joined" id="message42">
+   <div class="body">
+    <div class="pull_right date details" title="11.01.2026 09:30:00 UTC+03:00">09:30</div>
+    <div class="reply_to details">In reply to <a href="#go_to_message41" onclick="return GoToMessage(41)">this message</a></div>
+    <div class="forwarded body">
+     <div class="from_name">Другой канал<span class="details"> 09.01.2026 08:00:00</span></div>
+     <div class="text">Маршрут по Кикладам</div>
+    </div>
+   </div>
+  </div>
+  <div class="message default clearfix" id="message43">
+   <div class="body">
+    <div class="pull_right date details" title="12.01.2026 10:00:00 UTC+03:00">10:00</div>
+    <div class="media_wrap clearfix"><a class="photo_wrap" href="photos/photo_2.jpg"></a></div>
+   </div>
+  </div>
+ </div></div>
+</div></body></html>`;
+
+test("loadHistoryFromDir imports Telegram HTML export pages", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-importers-"));
+  const exportDir = path.join(tmpRoot, "export");
+  await mkdir(exportDir, { recursive: true });
+  await writeFile(path.join(exportDir, "messages.html"), TELEGRAM_HTML_PAGE, "utf-8");
+  await writeFile(path.join(exportDir, "style.html"), "<html></html>", "utf-8");
+
+  const posts = await loadHistoryFromDir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(
+    posts.map((post) => post.id),
+    ["42", "41"],
+  );
+  const [forwarded, original] = posts;
+  assert.equal(original?.channel, "Sail & Away");
+  assert.equal(original?.published_at, "2026-01-10T12:00:00+03:00");
+  assert.equal(original?.text, "Идем в Грецию\nСтарт из Афин 🚢");
+  assert.deepEqual(original?.media, ["photos/photo_1@10-01-2026.jpg"]);
+  assert.deepEqual(original?.reactions, [
+    { type: "emoji", emoji: "👍", count: 5 },
+    { type: "paid", emoji: "⭐", count: 2 },
+  ]);
+  assert.deepEqual(original?.text_entities, [
+    { type: "text_link", text: "Афин", href: "https://example.com/marina" },
+  ]);
+  assert.equal(forwarded?.forwarded_from, "Другой канал");
+  assert.equal(forwarded?.reply_to_message_id, "41");
+  assert.equal(forwarded?.text, "Маршрут по Кикладам");
+});
+
+test("loadHistoryFromDir imports JSONL of posts", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-importers-"));
+  await writeFile(
+    path.join(tmpRoot, "sail-away.jsonl"),
+    [
+      JSON.stringify({ id: "1", published_at: "2026-01-10T12:00:00Z", text: "Первый пост", views: 120 }),
+      "",
+      JSON.stringify({ id: "2", published_at: "2026-01-11T12:00:00Z", text: "Второй пост" }),
+    ].join("\n"),
+    "utf-8",
+  );
+
+  const posts = await loadHistoryFromDir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(posts.length, 2);
+  assert.equal(posts[0]?.channel, "sail-away");
+  assert.equal(posts[1]?.views, 120);
+});
+
+test("reindexHistory skips a malformed JSONL line and keeps the other posts", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-importers-"));
+  await writeFile(
+    path.join(tmpRoot, "sail-away.jsonl"),
+    [
+      JSON.stringify({ id: "1", published_at: "2026-01-10T12:00:00Z", text: "Первый пост" }),
+      '{"id": "2", "published_at": ',
+      "[1, 2]",
+      JSON.stringify({ id: "3", published_at: "2026-01-11T12:00:00Z", text: "Третий пост" }),
+    ].join("\n"),
+    "utf-8",
+  );
+
+  const { posts, report } = await reindexHistory(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.deepEqual(posts.map((post) => post.id).sort(), ["1", "3"]);
+  assert.equal(report.filesSkipped, 0);
+  assert.equal(report.postsSkipped, 2);
+  assert.deepEqual(
+    report.issues.map((issue) => [issue.code, issue.channel, issue.postId, issue.message]),
+    [
+      ["invalid_json", "sail-away", "line 2", "Invalid JSON on line 2"],
+      ["invalid_post", "sail-away", "line 3", "Line 3 is not a post object"],
+    ],
+  );
+});
+
+test("loadHistoryFromDir imports CSV using the manifest column mapping", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-importers-"));
+  const analyticsDir = path.join(tmpRoot, "analytics");
+  await mkdir(analyticsDir, { recursive: true });
+  await writeFile(
+    path.join(tmpRoot, "manifest.json"),
+    JSON.stringify({
+      paths: { analytics: "similar" },
+      csv: {
+        analytics: {
+          channel: "Competitor",
+          columns: { id: "Post ID", published_at: "Date", text: "Message", views: "Views" },
+        },
+      },
+    }),
+    "utf-8",
+  );
+  await writeFile(
+    path.join(analyticsDir, "dump.csv"),
+    [
+      "Post ID;Date;Message;Views",
+      '7;2026-01-10 12:00:00;"Регата; итоги ""сезона""";1 500',
+      '8;2026-01-12 12:00:00;"Две строки\nтекста";',
+    ].join("\n"),
+    "utf-8",
+  );
+
+  const posts = await loadHistoryFromDir(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(posts.length, 2);
+  assert.equal(posts[0]?.channel, "Competitor");
+  assert.equal(posts[0]?.kind, "similar");
+  assert.equal(posts[0]?.text, "Две строки\nтекста");
+  assert.equal(posts[1]?.text, 'Регата; итоги "сезона"');
+  assert.equal(posts[1]?.views, 1500);
+});
+
+test("reindexHistory reports CSV files missing mapped columns", async () => {
+  const tmpRoot = await mkdtemp(path.join(os.tmpdir(), "sail-away-importers-"));
+  await writeFile(path.join(tmpRoot, "dump.csv"), "Date,Message\n2026-01-10,Текст\n", "utf-8");
+
+  const { posts, report } = await reindexHistory(tmpRoot);
+  await rm(tmpRoot, { recursive: true, force: true });
+
+  assert.equal(posts.length, 0);
+  assert.equal(report.filesSkipped, 1);
+  assert.match(report.issues[0]?.message ?? "", /missing columns id, published_at, text/);
+});
+
+test("parseCsvRows handles quoted delimiters, quotes and CRLF", () => {
+  assert.deepEqual(parseCsvRows('a,b\r\n"x,1","say ""hi"""\r\n', ","), [
+    ["a", "b"],
+    ["x,1", 'say "hi"'],
+  ]);
+});
@@ -0,0 +1,50 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { analyzeText, createBm25Index, stemEnglish, stemRussian } from "../src/lexical";
+
+test("stemRussian maps inflected forms to one stem", () => {
+  const groups = [
+    ["катамаран", "катамараны", "катамараном", "катамаранов", "катамарана"],
+    ["аптечка", "аптечку", "аптечкой", "аптечки"],
+    ["яхта", "яхте", "яхтой", "яхтами", "яхт"],
+    ["первая", "первой", "первую"],
+    ["укачивание", "укачивания", "укачиванием"],
+    ["безопасность", "безопасности"],
+    ["стоянка", "стоянки", "стоянках"],
+  ];
+  for (const group of groups) {
+    assert.equal(new Set(group.map(stemRussian)).size, 1, group.join(", "));
+  }
+  assert.notEqual(stemRussian("марина"), stemRussian("маршрут"));
+  assert.equal(stemRussian("ёлка"), stemRussian("елки"));
+});
+
+test("stemEnglish strips plurals and verb endings", () => {
+  assert.deepEqual(["sailing", "sailed", "sails", "sail"].map(stemEnglish), ["sail", "sail", "sail", "sail"]);
+  assert.equal(stemEnglish("running"), "run");
+  assert.equal(stemEnglish("batteries"), "battery");
+  assert.equal(stemEnglish("class"), "class");
+});
+
+test("analyzeText drops stop words and stems by script", () => {
+  assert.deepEqual(analyzeText("Что взять на яхту и для катамаранов? Sailing boats, 2026"), [
+    "взят",
+    "яхт",
+    "катамаран",
+    "sail",
+    "boat",
+    "2026",
+  ]);
+});
+
+test("BM25 weighs rare terms above common ones", () => {
+  const documents = ["Катамаран на якоре в бухте", "Яхта в бухте", "Яхта у причала", "Яхта и ветер"].map(analyzeText);
+  const index = createBm25Index(documents);
+  const query = analyzeText("катамаран яхта");
+
+  assert.ok(index.score(query, 0) > index.score(query, 1));
+  assert.equal(index.score(analyzeText("катамараны"), 0), index.score(analyzeText("катамаран"), 0));
+  assert.equal(index.score(analyzeText("паруса"), 0), 0);
+  assert.equal(index.score([], 0), 0);
+  assert.ok(index.score(query, 0) <= 1);
+});
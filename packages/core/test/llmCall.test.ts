@@ -0,0 +1,125 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { callWithRetry, classifyLlmError, LlmError, withRetries } from "../src/llmCall";
+import { createFakeProvider } from "../src/providers/fake";
+import { createOpenAiProvider } from "../src/providers/openai";
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 2, timeoutMs: 1000 };
+
+function httpError(status: number, retryAfter?: string): Error {
+  return Object.assign(new Error(`${status} status code`), {
+    status,
+    headers: new Headers(retryAfter ? { "retry-after": retryAfter } : {}),
+  });
+}
+
+test("classifyLlmError recognizes status codes, timeouts and network failures", () => {
+  assert.equal(classifyLlmError(httpError(429)).kind, "rate_limit");
+  const quotaError = classifyLlmError(Object.assign(httpError(429), { code: "insufficient_quota" }));
+  assert.equal(quotaError.kind, "quota");
+  assert.equal(quotaError.retryable, false);
+  assert.equal(classifyLlmError(httpError(401)).kind, "auth");
+  assert.equal(classifyLlmError(httpError(503)).kind, "unavailable");
+  assert.equal(classifyLlmError(httpError(400)).kind, "bad_request");
+  assert.equal(classifyLlmError(httpError(429, "3")).retryAfterMs, 3000);
+  assert.equal(
+    classifyLlmError(Object.assign(new Error("timeout"), { name: "APIConnectionTimeoutError" })).kind,
+    "timeout",
+  );
+  assert.equal(
+    classifyLlmError(Object.assign(new Error("fetch failed"), { cause: { code: "ECONNRESET" } })).kind,
+    "unavailable",
+  );
+  assert.equal(classifyLlmError(new Error("missing_api_key")).kind, "auth");
+});
+
+test("callWithRetry retries retryable errors and gives up on the rest", async () => {
+  let calls = 0;
+  const result = await callWithRetry(
+    async () => {
+      calls += 1;
+      if (calls < 3) throw httpError(calls === 1 ? 429 : 502);
+      return "ok";
+    },
+    { policy: FAST },
+  );
+  assert.equal(result, "ok");
+  assert.equal(calls, 3);
+
+  let authCalls = 0;
+  await assert.rejects(
+    () =>
+      callWithRetry(
+        async () => {
+          authCalls += 1;
+          throw httpError(401);
+        },
+        { policy: FAST },
+      ),
+    (error) => error instanceof LlmError && error.kind === "auth" && error.status === 401,
+  );
+  assert.equal(authCalls, 1);
+
+  let failingCalls = 0;
+  await assert.rejects(
+    () =>
+      callWithRetry(
+        async () => {
+          failingCalls += 1;
+          throw httpError(500);
+        },
+        { policy: { ...FAST, maxRetries: 2 } },
+      ),
+    (error) => error instanceof LlmError && error.kind === "unavailable",
+  );
+  assert.equal(failingCalls, 3);
+});
+
+function hangUntilAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(Object.assign(new Error("aborted"), { name: "AbortError" })));
+  });
+}
+
+test("callWithRetry times out each attempt and stops on caller abort", async () => {
+  let attempts = 0;
+  await assert.rejects(
+    () =>
+      callWithRetry(
+        (signal) => {
+          attempts += 1;
+          return hangUntilAborted(signal);
+        },
+        { policy: { ...FAST, timeoutMs: 20, maxRetries: 1 } },
+      ),
+    (error) => error instanceof LlmError && error.kind === "timeout",
+  );
+  assert.equal(attempts, 2);
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 10);
+  await assert.rejects(
+    () => callWithRetry((signal) => hangUntilAborted(signal), { policy: FAST, signal: controller.signal }),
+    (error) => error instanceof LlmError && error.kind === "aborted",
+  );
+});
+
+test("withRetries passes the per-attempt signal to the provider", async () => {
+  const fake = createFakeProvider({ responses: { draft: "{}" } });
+  const provider = withRetries(fake, FAST);
+
+  const result = await provider.generateText({ purpose: "draft", model: "m", prompt: "p", maxOutputTokens: 10 });
+
+  assert.equal(result.text, "{}");
+  assert.ok(fake.calls[0]?.signal instanceof AbortSignal);
+});
+
+test("the openai provider refuses a seed instead of dropping it", async () => {
+  const provider = withRetries(createOpenAiProvider({ apiKey: "sk-test" }), { ...FAST, maxRetries: 3 });
+
+  await assert.rejects(
+    () => provider.generateText({ purpose: "draft", model: "gpt-5-mini", prompt: "p", seed: 42 }),
+    (error: unknown) =>
+      error instanceof LlmError && error.kind === "bad_request" && /seed_not_supported/.test(error.message),
+  );
+});
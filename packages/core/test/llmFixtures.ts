@@ -0,0 +1,17 @@
+import path from "node:path";
+import { loadConfig } from "../src/config";
+import { createLlmProvider, type LlmProvider } from "../src/llmProvider";
+import { createReplayProvider } from "../src/providers/replay";
+
+/**
+ * Replays `test/fixtures/<name>.json`. Run the tests with `LLM_FIXTURES=record`
+ * (and real provider settings in env) to re-record fixtures after a prompt change.
+ */
+export function fixtureProvider(name: string): LlmProvider {
+  const record = process.env.LLM_FIXTURES === "record";
+  return createReplayProvider({
+    fixtureFile: path.join(__dirname, "fixtures", `${name}.json`),
+    mode: record ? "record" : "replay",
+    provider: record ? createLlmProvider(loadConfig()) : undefined,
+  });
+}
@@ -9,6 +9,7 @@ function makePost(index: number): IndexedPost {
     published_at: `2026-01-${String((index % 28) + 1).padStart(2, "0")}T10:00:00Z`,
     text: `Пост номер ${index}`,
     channel: "Test",
+    kind: "own",
     sourceFile: "test.json",
   };
 }
@@ -0,0 +1,14 @@
+import type { IndexedPost } from "../src/history";
+
+/** An own-channel post for unit tests; `overrides` replace any field. */
+export function makePost(overrides: Partial<IndexedPost> = {}): IndexedPost {
+  return {
+    id: "1",
+    channel: "Sail Away",
+    kind: "own",
+    sourceFile: "/tmp/history/own.json",
+    published_at: "2026-01-05T09:00:00Z",
+    text: "Пост",
+    ...overrides,
+  };
+}
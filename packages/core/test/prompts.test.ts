@@ -0,0 +1,79 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { loadPromptSet, parsePromptTemplate, PROMPT_NAMES, renderPrompt } from "../src/prompts";
+
+test("parsePromptTemplate reads the version and rejects templates without one", () => {
+  const template = parsePromptTemplate("---\nversion: 3\n---\nТема: {{topic}}\n", "draft", "ru");
+  assert.equal(template.version, "3");
+  assert.equal(template.id, "ru/draft@3");
+  assert.equal(template.body, "Тема: {{topic}}");
+
+  assert.throws(() => parsePromptTemplate("Тема: {{topic}}", "draft", "ru"), /prompt_version_missing: ru\/draft/);
+  assert.throws(() => parsePromptTemplate("---\nauthor: x\n---\nbody", "plan", "en"), /prompt_version_missing/);
+});
+
+test("renderPrompt substitutes variables and fails on a missing one", () => {
+  const template = parsePromptTemplate("---\nversion: 1\n---\n{{ topic }} для {{audience}}", "draft", "ru");
+  assert.equal(renderPrompt(template, { topic: "Чартер", audience: "новичков" }), "Чартер для новичков");
+  assert.throws(
+    () => renderPrompt(template, { topic: "Чартер" }),
+    /prompt_variable_missing: ru\/draft@1 \{\{audience\}\}/,
+  );
+});
+
+test("bundled prompt sets render for every language", async () => {
+  for (const language of ["ru", "en"] as const) {
+    const prompts = await loadPromptSet({ language });
+    assert.equal(prompts.language, language);
+    assert.ok(prompts.variables.audience);
+    for (const name of PROMPT_NAMES) {
+      const template = prompts.templates[name];
+      assert.equal(template.id, `${language}/${name}@${template.version}`);
+      const rendered = renderPrompt(template, {
+        ...prompts.variables,
+        topic: "t",
+        evidence: "e",
+        prompt: "p",
+        previousOutput: "o",
+        issues: "i",
+        avoidTopics: "",
+      });
+      assert.doesNotMatch(rendered, /\{\{/);
+    }
+  }
+  const en = await loadPromptSet({ language: "en" });
+  assert.match(
+    renderPrompt(en.templates.draft, { ...en.variables, topic: "Night watch", evidence: "" }),
+    /Night watch/,
+  );
+});
+
+test("loadPromptSet applies variable overrides and reports missing files", async () => {
+  const prompts = await loadPromptSet({ variables: { audience: "опытные шкиперы", topicLabel: " " } });
+  assert.equal(prompts.variables.audience, "опытные шкиперы");
+  assert.equal(prompts.variables.topicLabel, "Тема");
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), "sail-away-prompts-"));
+  await mkdir(path.join(dir, "en"));
+  await writeFile(path.join(dir, "en", "topic_seeds.txt"), "---\nversion: 1\n---\nx", "utf-8");
+  await assert.rejects(() => loadPromptSet({ language: "en", dir }), /prompt_missing: .*en\/plan\.txt/);
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("loadPromptSet falls back to the bundled theme_labels template", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "sail-away-prompts-"));
+  await mkdir(path.join(dir, "en"));
+  for (const name of PROMPT_NAMES.filter((name) => name !== "theme_labels")) {
+    await writeFile(path.join(dir, "en", `${name}.txt`), "---\nversion: 7\n---\ncustom", "utf-8");
+  }
+  await writeFile(path.join(dir, "en", "variables.json"), JSON.stringify({ audience: "skippers" }), "utf-8");
+
+  const prompts = await loadPromptSet({ language: "en", dir });
+  assert.equal(prompts.templates.plan.id, "en/plan@7");
+  assert.equal(prompts.templates.theme_labels.id, "en/theme_labels@1");
+  assert.match(renderPrompt(prompts.templates.theme_labels, { ...prompts.variables, evidence: "e" }), /skippers/);
+  await rm(dir, { recursive: true, force: true });
+});
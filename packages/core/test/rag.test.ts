@@ -0,0 +1,319 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { ContentGap } from "../src/gaps";
+import type { IndexedPost } from "../src/history";
+import { createFakeProvider } from "../src/providers/fake";
+import { buildNext10PlanRag } from "../src/rag";
+import { fixtureProvider } from "./llmFixtures";
+
+const TOPICS = [
+  "Как выбрать первый яхтенный чартер",
+  "Что взять с собой на яхту",
+  "Морская болезнь: как справиться",
+  "Бюджет недели на яхте",
+  "Безопасность на борту для новичков",
+  "Лучшие марины Греции",
+  "Как устроен быт на яхте",
+  "Погода и выбор окна для перехода",
+  "Якорные стоянки Хорватии",
+  "Первый день на борту",
+];
+
+function makePosts(): IndexedPost[] {
+  return TOPICS.map((topic, index) => ({
+    id: String(index + 1),
+    channel: index % 2 === 0 ? "Sail Away" : "Competitor",
+    kind: index % 2 === 0 ? "own" : "similar",
+    sourceFile: "history/own.json",
+    published_at: `2026-01-${String(index + 1).padStart(2, "0")}T10:00:00Z`,
+    text: `${topic}. Подробный разбор для тех, кто идет в море впервые.`,
+    metrics: { reactions: index },
+  }));
+}
+
+function planResponse(topics = TOPICS): string {
+  return JSON.stringify(
+    topics.map((topic) => ({
+      topic,
+      objective: "engagement",
+      tone: "casual",
+      cta: "Напишите в комментариях",
+      sourcePostIds: [],
+    })),
+  );
+}
+
+test("buildNext10PlanRag runs offline with the fake provider", async () => {
+  const provider = createFakeProvider({
+    responses: { topic_seeds: JSON.stringify(TOPICS), plan: planResponse() },
+  });
+
+  const result = await buildNext10PlanRag(makePosts(), {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+  });
+
+  assert.deepEqual(result.topicSeeds, TOPICS);
+  assert.equal(result.plan.length, 10);
+  assert.equal(result.plan[0]?.rank, 1);
+  assert.equal(result.plan[0]?.sourcePostIds.length, 2);
+  assert.deepEqual(
+    provider.calls.map((call) => call.purpose),
+    ["topic_seeds", "plan"],
+  );
+  assert.match(provider.calls[1]?.prompt ?? "", /Тема 1: Как выбрать первый яхтенный чартер/);
+});
+
+test("buildNext10PlanRag surfaces invalid scripted plan responses", async () => {
+  const provider = createFakeProvider({
+    responses: { topic_seeds: JSON.stringify(TOPICS), plan: "not json" },
+  });
+
+  await assert.rejects(
+    () =>
+      buildNext10PlanRag(makePosts(), {
+        provider,
+        model: "fake-model",
+        embeddingModel: "fake-embedding",
+        topK: 2,
+      }),
+    /invalid_plan_response/,
+  );
+  // Первая попытка и две попытки исправления.
+  assert.equal(provider.calls.filter((call) => call.purpose === "plan").length, 3);
+});
+
+test("buildNext10PlanRag repairs a plan that fails schema validation", async () => {
+  const invalid = JSON.parse(planResponse()) as Array<Record<string, unknown>>;
+  invalid[3] = { ...invalid[3], tone: "formal" };
+  const provider = createFakeProvider({
+    responses: { topic_seeds: JSON.stringify(TOPICS), plan: [JSON.stringify(invalid), planResponse()] },
+  });
+
+  const result = await buildNext10PlanRag(makePosts(), {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+  });
+
+  assert.equal(result.plan[3]?.tone, "casual");
+  const planCalls = provider.calls.filter((call) => call.purpose === "plan");
+  assert.equal(planCalls.length, 2);
+  assert.match(planCalls[1]?.prompt ?? "", /\$\[3\]\.tone: must be one of inspiring, casual, adventure, got "formal"/);
+  assert.equal(planCalls[0]?.jsonSchema?.name, "content_plan");
+});
+
+test("buildNext10PlanRag replays the recorded pipeline", async () => {
+  const posts = makePosts();
+
+  const result = await buildNext10PlanRag(posts, {
+    provider: fixtureProvider("plan-pipeline"),
+    model: "gpt-5-mini",
+    embeddingModel: "text-embedding-3-small",
+    topK: posts.length,
+  });
+
+  assert.equal(result.topicSeeds.length, 10);
+  assert.deepEqual(
+    result.plan.map((item) => item.rank),
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  );
+  const ids = new Set(posts.map((post) => post.id));
+  assert.ok(result.plan.every((item) => item.sourcePostIds.every((id) => ids.has(id))));
+  assert.deepEqual(result.promptVersions, { topic_seeds: "ru/topic_seeds@1", plan: "ru/plan@2" });
+});
+
+test("buildNext10PlanRag picks the same evidence on every run", async () => {
+  const run = async () => {
+    const provider = createFakeProvider({
+      responses: { topic_seeds: JSON.stringify(TOPICS), plan: planResponse() },
+    });
+    const result = await buildNext10PlanRag(makePosts(), {
+      provider,
+      model: "fake-model",
+      embeddingModel: "fake-embedding",
+      topK: 2,
+      mmrLambda: 0.5,
+      seed: 7,
+    });
+    assert.ok(provider.calls.every((call) => call.seed === 7));
+    return { prompt: provider.calls[1]?.prompt, sources: result.plan.map((item) => item.sourcePostIds) };
+  };
+
+  assert.deepEqual(await run(), await run());
+});
+
+test("buildNext10PlanRag measures post recency from referenceTime", async () => {
+  // Старые посты собрали больше реакций, новые выигрывают только за счет свежести.
+  const posts = makePosts().map((post, index) => ({
+    ...post,
+    published_at: new Date(Date.UTC(2024, 0, 1) + index * 100 * 86_400_000).toISOString(),
+    metrics: { reactions: 10 - index },
+  }));
+  const seedPrompt = async (referenceTime: string) => {
+    const provider = createFakeProvider({
+      responses: { topic_seeds: JSON.stringify(TOPICS), plan: planResponse() },
+    });
+    await buildNext10PlanRag(posts, {
+      provider,
+      model: "fake-model",
+      embeddingModel: "fake-embedding",
+      topK: 2,
+      referenceTime,
+    });
+    return provider.calls[0]?.prompt;
+  };
+
+  assert.equal(await seedPrompt("2026-07-01T00:00:00Z"), await seedPrompt("2026-07-01T00:00:00Z"));
+  // Через пару лет все посты одинаково старые, и порядок задает только вовлеченность.
+  assert.notEqual(await seedPrompt("2026-07-01T00:00:00Z"), await seedPrompt("2030-01-01T00:00:00Z"));
+  await assert.rejects(() => seedPrompt("вчера"), /invalid_reference_time/);
+});
+
+test("buildNext10PlanRag drops topics repeating previous queues and reports the collision", async () => {
+  const provider = createFakeProvider({
+    responses: {
+      topic_seeds: JSON.stringify(TOPICS),
+      plan: planResponse([...TOPICS, "Ночные переходы под парусом"]),
+    },
+  });
+  const options = {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+    previousTopics: [{ topic: "Морская болезнь — как справиться?", queueId: "queue_old", rank: 4 }],
+  };
+
+  const result = await buildNext10PlanRag(makePosts(), options);
+
+  assert.equal(result.plan.length, 10);
+  assert.ok(result.plan.every((item) => item.topic !== "Морская болезнь: как справиться"));
+  assert.equal(result.plan[9]?.topic, "Ночные переходы под парусом");
+  // Одиннадцатая тема не имеет своей затравки, но источники получает от ближайшей.
+  assert.ok((result.plan[9]?.sourcePostIds.length ?? 0) > 0);
+  assert.deepEqual(
+    result.plan.map((item) => item.rank),
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  );
+  assert.equal(result.rejectedTopics.length, 1);
+  assert.equal(result.rejectedTopics[0]?.item.topic, "Морская болезнь: как справиться");
+  assert.deepEqual(result.rejectedTopics[0]?.collidesWith, {
+    kind: "previous_queue",
+    text: "Морская болезнь — как справиться?",
+    queueId: "queue_old",
+    rank: 4,
+    similarity: 1,
+  });
+
+  await assert.rejects(
+    () => buildNext10PlanRag(makePosts(), { ...options, previousTopics: [{ topic: TOPICS[0] }, { topic: TOPICS[1] }] }),
+    /insufficient_unique_topics_after_avoidance/,
+  );
+});
+
+test("buildNext10PlanRag asks again for the topics dropped as repeats", async () => {
+  const provider = createFakeProvider({
+    responses: {
+      topic_seeds: JSON.stringify(TOPICS),
+      plan: [planResponse(), planResponse([...TOPICS.slice(2), "Ночные переходы под парусом", "Рыбалка с борта яхты"])],
+    },
+  });
+
+  const result = await buildNext10PlanRag(makePosts(), {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+    previousTopics: [{ topic: TOPICS[0] }, { topic: TOPICS[1] }],
+  });
+
+  const planCalls = provider.calls.filter((call) => call.purpose === "plan");
+  assert.equal(planCalls.length, 2);
+  // Затравка, первый план и второй план; принятые темы повторно не эмбеддятся.
+  assert.equal(provider.embeddedTexts.filter((text) => text === TOPICS[9]).length, 3);
+  assert.doesNotMatch(planCalls[0]?.prompt ?? "", /Не повторяй темы/);
+  const avoided = (planCalls[1]?.prompt ?? "").split("Контекст:")[0] ?? "";
+  assert.match(avoided, /Не повторяй темы, которые уже есть в плане или отброшены как повторы:/);
+  assert.ok(TOPICS.every((topic) => avoided.includes(`- ${topic}\n`)));
+
+  assert.deepEqual(
+    result.plan.map((item) => item.topic),
+    [...TOPICS.slice(2), "Ночные переходы под парусом", "Рыбалка с борта яхты"],
+  );
+  assert.deepEqual(
+    result.plan.map((item) => item.rank),
+    [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  );
+  assert.deepEqual(
+    result.rejectedTopics.map((entry) => [entry.item.topic, entry.collidesWith.kind]),
+    [
+      [TOPICS[0], "previous_queue"],
+      [TOPICS[1], "previous_queue"],
+      ...TOPICS.slice(2).map((topic) => [topic, "plan"]),
+    ],
+  );
+});
+
+const MARINA_GAP: ContentGap = {
+  themeId: "theme_1",
+  label: "марины, стоянки",
+  topTerms: ["марины", "стоянки"],
+  ownPosts: 0,
+  similarPosts: 1,
+  ownShare: 0,
+  similarShare: 0.2,
+  similarEngagement: 0.5,
+  score: 0.3,
+  examples: [
+    {
+      channel: "Competitor",
+      id: "6",
+      kind: "similar",
+      published_at: "2026-01-06T10:00:00Z",
+      snippet: "Лучшие марины Греции",
+      engagement: 0.5,
+    },
+  ],
+};
+
+test("buildNext10PlanRag leads the seed evidence with content gap examples", async () => {
+  const provider = createFakeProvider({
+    responses: { topic_seeds: JSON.stringify(TOPICS), plan: planResponse() },
+  });
+
+  await buildNext10PlanRag(makePosts(), {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+    gaps: [MARINA_GAP],
+  });
+
+  const seedPrompt = provider.calls[0]?.prompt ?? "";
+  const lines = seedPrompt.split("\n").filter((line) => line.startsWith("- "));
+  assert.match(lines[0] ?? "", /^- Тема конкурентов, которой нет у нас="марины, стоянки"; .*Лучшие марины Греции/);
+  assert.equal(lines.filter((line) => line.includes("Лучшие марины Греции")).length, 1);
+});
+
+test("buildNext10PlanRag skips gap examples of a channel kind excluded from planning", async () => {
+  const provider = createFakeProvider({
+    responses: { topic_seeds: JSON.stringify(TOPICS), plan: planResponse() },
+  });
+
+  await buildNext10PlanRag(makePosts(), {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    topK: 2,
+    kindWeights: { similar: 0 },
+    gaps: [MARINA_GAP],
+  });
+
+  const seedPrompt = provider.calls[0]?.prompt ?? "";
+  assert.doesNotMatch(seedPrompt, /Тема конкурентов, которой нет у нас/);
+  assert.doesNotMatch(seedPrompt, /Лучшие марины Греции/);
+});
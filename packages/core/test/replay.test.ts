@@ -0,0 +1,54 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createFakeProvider } from "../src/providers/fake";
+import { createReplayProvider } from "../src/providers/replay";
+
+const request = { purpose: "draft", model: "m", prompt: "Тема: Аптечка на яхте", maxOutputTokens: 100 };
+
+test("replay provider returns what was recorded", async () => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-replay-"));
+  const fixtureFile = path.join(tmpDir, "draft.json");
+  const inner = createFakeProvider({ responses: { draft: '{"text":"ok"}' } });
+
+  const recorder = createReplayProvider({ fixtureFile, mode: "record", provider: inner });
+  await recorder.generateText(request);
+  const recorded = await recorder.embed("e", ["Аптечка"]);
+
+  const replay = createReplayProvider({ fixtureFile });
+  const text = await replay.generateText(request);
+  const replayed = await replay.embed("e", ["Аптечка"]);
+  await rm(tmpDir, { recursive: true, force: true });
+
+  assert.equal(text.text, '{"text":"ok"}');
+  assert.deepEqual(
+    replayed.embeddings[0]?.map((value) => Number(value.toFixed(5))),
+    recorded.embeddings[0]?.map((value) => Number(value.toFixed(5))),
+  );
+  assert.equal(inner.calls.length, 1);
+});
+
+test("replay provider fails loudly on changed prompts and unknown inputs", async () => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "sail-away-replay-"));
+  const fixtureFile = path.join(tmpDir, "draft.json");
+  const recorder = createReplayProvider({
+    fixtureFile,
+    mode: "record",
+    provider: createFakeProvider({ responses: { draft: "{}" } }),
+  });
+  await recorder.generateText(request);
+
+  const replay = createReplayProvider({ fixtureFile });
+  await assert.rejects(
+    () => replay.generateText({ ...request, prompt: "Тема: Морская болезнь" }),
+    /llm_fixture_stale: draft .* prompt changed, first difference at char 6/,
+  );
+  await assert.rejects(() => replay.embed("e", ["новый текст"]), /llm_fixture_stale: no recorded e embedding/);
+  await assert.rejects(
+    () => createReplayProvider({ fixtureFile: path.join(tmpDir, "missing.json") }).embed("e", ["x"]),
+    /llm_fixture_missing/,
+  );
+  await rm(tmpDir, { recursive: true, force: true });
+});
@@ -0,0 +1,144 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { IndexedPost } from "../src/history";
+import { createRetriever } from "../src/retriever";
+import { makePost } from "./posts";
+
+const posts: IndexedPost[] = [
+  makePost({ id: "1", text: "Аптечка на яхте: что взять", published_at: "2025-06-01T10:00:00Z" }),
+  makePost({ id: "2", text: "Маршрут по Хорватии", published_at: "2026-01-05T10:00:00Z" }),
+  makePost({
+    id: "3",
+    channel: "Competitor",
+    kind: "similar",
+    text: "Аптечка для шкипера",
+    published_at: "2026-01-10T10:00:00Z",
+  }),
+  makePost({
+    id: "4",
+    channel: "Other",
+    kind: "similar",
+    text: "Погода в Эгейском море",
+    published_at: "2026-01-10T10:00:00Z",
+  }),
+];
+const embeddings = [
+  [0.2, 1],
+  [1, 0],
+  [0.3, 1],
+  [0.9, 0.1],
+];
+
+test("createRetriever ranks by weighted components", () => {
+  const query = { text: "Аптечка на яхте", embedding: [1, 0] };
+
+  const semantic = createRetriever(posts, embeddings, { weights: { lexical: 0, mustHave: 0 } }).retrieve(query);
+  assert.deepEqual(
+    semantic.map((entry) => entry.post.id),
+    ["2", "4", "3", "1"],
+  );
+
+  const lexical = createRetriever(posts, embeddings, { weights: { embedding: 0, mustHave: 0 } }).retrieve(query);
+  assert.equal(lexical[0]?.post.id, "1");
+  assert.ok((lexical[0]?.components.lexical ?? 0) > 0.5);
+  assert.ok(lexical[0]?.components.embedding > 0);
+});
+
+test("createRetriever applies kind weights, mustHave and exclude terms", () => {
+  const retriever = createRetriever(posts, embeddings, { kindWeights: { own: 0 } });
+  const ranked = retriever.retrieve({
+    text: "Аптечка",
+    embedding: [1, 0],
+    mustHave: ["шкипера"],
+    exclude: ["Эгейском"],
+  });
+
+  assert.deepEqual(
+    ranked.map((entry) => entry.post.id),
+    ["3", "4"],
+  );
+  assert.ok((ranked[0]?.components.mustHave ?? 0) > 0);
+  assert.equal(ranked[1]?.components.mustHave, 0);
+  assert.ok((ranked[1]?.components.exclude ?? 0) > 0);
+});
+
+test("createRetriever filters by kind, channel and date range", () => {
+  const retriever = createRetriever(posts, embeddings, { filters: { from: "2026-01-01" } });
+  const query = { text: "Аптечка", embedding: [1, 0] };
+
+  assert.deepEqual(
+    retriever
+      .retrieve(query)
+      .map((entry) => entry.post.id)
+      .sort(),
+    ["2", "3", "4"],
+  );
+  assert.deepEqual(
+    retriever
+      .retrieve({ ...query, filters: { kinds: ["similar"], channels: ["Other"] } })
+      .map((entry) => entry.post.id),
+    ["4"],
+  );
+  assert.deepEqual(
+    retriever.retrieve({ ...query, filters: { to: "2026-01-06" } }).map((entry) => entry.post.id),
+    ["2"],
+  );
+  assert.throws(() => retriever.retrieve({ ...query, filters: { from: "вчера" } }), /invalid_retrieval_date/);
+});
+
+test("createRetriever keeps one post per duplicate cluster within topK", () => {
+  const duplicates = [
+    makePost({ id: "10", text: "Аптечка", duplicateClusterId: "Sail Away:10" }),
+    makePost({ id: "11", channel: "Competitor", text: "Аптечка", duplicateClusterId: "Sail Away:10" }),
+    makePost({ id: "12", text: "Аптечка и лекарства" }),
+    makePost({ id: "13", text: "Якорь" }),
+  ];
+  const ranked = createRetriever(duplicates, [
+    [1, 0],
+    [1, 0],
+    [0.9, 0.1],
+    [0, 1],
+  ]).retrieve({ text: "Аптечка", embedding: [1, 0], topK: 2 });
+
+  assert.deepEqual(
+    ranked.map((entry) => entry.post.id),
+    ["10", "12"],
+  );
+});
+
+test("createRetriever re-ranks with MMR deterministically", () => {
+  const candidates = [
+    makePost({ id: "a", text: "Аптечка на яхте" }),
+    makePost({ id: "b", text: "Аптечка на яхте: список" }),
+    makePost({ id: "c", text: "Лекарства от укачивания" }),
+  ];
+  const retriever = createRetriever(candidates, [
+    [1, 0, 0],
+    [0.99, 0.01, 0],
+    [0.7, 0, 0.7],
+  ]);
+  const query = { text: "Аптечка", embedding: [1, 0, 0], topK: 2 };
+
+  assert.deepEqual(
+    retriever.retrieve({ ...query, mmrLambda: 1 }).map((entry) => entry.post.id),
+    ["a", "b"],
+  );
+  const diverse = retriever.retrieve({ ...query, mmrLambda: 0.3 }).map((entry) => entry.post.id);
+  assert.deepEqual(diverse, ["a", "c"]);
+  assert.deepEqual(
+    retriever.retrieve({ ...query, mmrLambda: 0.3 }).map((entry) => entry.post.id),
+    diverse,
+  );
+  assert.throws(() => retriever.retrieve({ ...query, mmrLambda: 1.5 }), /invalid_mmr_lambda/);
+});
+
+test("createRetriever explains posts left out by topK", () => {
+  const explained = createRetriever(posts, embeddings).explain({ text: "Аптечка", embedding: [1, 0], topK: 1 });
+
+  assert.equal(explained.length, posts.length);
+  assert.deepEqual(
+    explained.map((entry) => entry.rank),
+    [1, null, null, null],
+  );
+  assert.ok(explained.slice(1).every((entry) => entry.rejectedBy === "top_k"));
+});
@@ -0,0 +1,47 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { computeHistoryStats } from "../src/stats";
+import { makePost } from "./posts";
+
+test("computeHistoryStats aggregates per channel", () => {
+  const posts = [
+    makePost({ id: "1", published_at: "2025-12-29T09:00:00Z", text: "12345678", views: 100, metrics: { reactions: 1 } }),
+    makePost({ id: "2", published_at: "2026-01-05T09:00:00Z", text: "1234", media: ["photo.jpg"], metrics: { reactions: 3 } }),
+    makePost({ id: "3", published_at: "2026-01-06T22:30:00Z", text: "123456", views: 300, metrics: { reactions: 5 } }),
+    makePost({ id: "9", channel: "Competitor", kind: "similar", sourceFile: "history/similar/c.json" }),
+  ];
+
+  const stats = computeHistoryStats(posts);
+  const own = stats.channels[0];
+
+  assert.equal(stats.totalPosts, 4);
+  assert.deepEqual(
+    stats.channels.map((item) => [item.channel, item.kind, item.totalPosts]),
+    [
+      ["Sail Away", "own", 3],
+      ["Competitor", "similar", 1],
+    ],
+  );
+  assert.deepEqual(own?.postsByMonth, { "2025-12": 1, "2026-01": 2 });
+  assert.equal(own?.reactions.median, 3);
+  assert.equal(own?.reactions.p90, 4.6);
+  assert.equal(own?.views?.count, 2);
+  assert.equal(own?.views?.median, 200);
+  assert.equal(own?.avgTextLength, 6);
+  assert.equal(own?.mediaShare, 1 / 3);
+  assert.equal(own?.weekdayHistogram[0], 2);
+  assert.equal(own?.hourHistogram[9], 2);
+  assert.equal(own?.firstPostAt, "2025-12-29T09:00:00.000Z");
+  assert.equal(stats.channels[1]?.views, null);
+});
+
+test("computeHistoryStats buckets by the requested time zone", () => {
+  const posts = [makePost({ published_at: "2026-01-31T22:30:00Z" })];
+
+  const stats = computeHistoryStats(posts, { timeZone: "Europe/Moscow" });
+
+  assert.deepEqual(stats.channels[0]?.postsByMonth, { "2026-02": 1 });
+  assert.equal(stats.channels[0]?.hourHistogram[1], 1);
+  assert.equal(stats.channels[0]?.weekdayHistogram[6], 1);
+  assert.throws(() => computeHistoryStats(posts, { timeZone: "Mars/Olympus" }), RangeError);
+});
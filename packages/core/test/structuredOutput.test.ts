@@ -0,0 +1,111 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { LlmError } from "../src/llmCall";
+import { loadPromptSet } from "../src/prompts";
+import { createFakeProvider } from "../src/providers/fake";
+import {
+  extractJson,
+  generateStructured,
+  toProviderJsonSchema,
+  validateJson,
+  type JsonSchema,
+} from "../src/structuredOutput";
+
+const ITEM_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    topic: { type: "string", minLength: 1 },
+    tone: { type: "string", enum: ["casual", "inspiring"] },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["topic", "tone"],
+};
+
+const LIST_SCHEMA: JsonSchema = { type: "array", items: ITEM_SCHEMA, minItems: 2 };
+
+test("validateJson reports field-level errors with paths", () => {
+  const issues = validateJson(LIST_SCHEMA, [
+    { topic: "Бюджет", tone: "formal", tags: ["a", 1] },
+    { topic: " ", tags: null },
+  ]);
+
+  assert.deepEqual(issues, [
+    { path: "$[0].tone", message: 'must be one of casual, inspiring, got "formal"' },
+    { path: "$[0].tags[1]", message: "expected string, got number" },
+    { path: "$[1].topic", message: "must have at least 1 non-blank characters" },
+    { path: "$[1].tone", message: "is required" },
+  ]);
+  assert.deepEqual(validateJson(LIST_SCHEMA, { topic: "x" }), [{ path: "$", message: "expected array, got object" }]);
+  assert.deepEqual(validateJson(LIST_SCHEMA, [{ topic: "x", tone: "casual" }]), [
+    { path: "$", message: "expected at least 2 items, got 1" },
+  ]);
+});
+
+test("extractJson accepts fenced blocks and JSON surrounded by prose", () => {
+  assert.deepEqual(extractJson('```json\n["a","b"]\n```'), { value: ["a", "b"] });
+  assert.deepEqual(extractJson('Вот темы: ["a", "b"]. Удачи!'), { value: ["a", "b"] });
+  assert.deepEqual(extractJson('Ответ: {"text":"[черновик]"}'), { value: { text: "[черновик]" } });
+  assert.equal(extractJson("no json here"), null);
+});
+
+test("toProviderJsonSchema builds a strict object-rooted schema", () => {
+  const schema = toProviderJsonSchema(LIST_SCHEMA);
+
+  assert.deepEqual(schema, {
+    type: "object",
+    properties: {
+      result: {
+        type: "array",
+        minItems: 2,
+        items: {
+          type: "object",
+          properties: {
+            topic: { type: "string" },
+            tone: { type: "string", enum: ["casual", "inspiring"] },
+            tags: { anyOf: [{ type: "array", items: { type: "string" } }, { type: "null" }] },
+          },
+          required: ["topic", "tone", "tags"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["result"],
+    additionalProperties: false,
+  });
+});
+
+test("generateStructured unwraps strict-mode answers and stops after maxRepairs", async () => {
+  const valid = JSON.stringify({
+    result: [
+      { topic: "a", tone: "casual", tags: null },
+      { topic: "b", tone: "inspiring", tags: ["x"] },
+    ],
+  });
+  const request = {
+    purpose: "plan",
+    model: "fake-model",
+    prompt: "Составь план",
+    maxOutputTokens: 100,
+    schemaName: "plan",
+    schema: LIST_SCHEMA,
+    finalize: (value: unknown) => ({ value: value as Array<{ topic: string }> }),
+    errorCode: "invalid_plan_response",
+    repairTemplate: (await loadPromptSet()).templates.repair,
+  };
+
+  const ok = await generateStructured(createFakeProvider({ responses: { plan: valid } }), request);
+  assert.deepEqual(
+    ok.map((item) => item.topic),
+    ["a", "b"],
+  );
+
+  const broken = createFakeProvider({ responses: { plan: "[]" } });
+  await assert.rejects(
+    () => generateStructured(broken, { ...request, maxRepairs: 1 }),
+    (error) =>
+      error instanceof LlmError && error.kind === "invalid_output" && error.message === "invalid_plan_response",
+  );
+  assert.equal(broken.calls.length, 2);
+  assert.match(broken.calls[1]?.prompt ?? "", /^Составь план\n/);
+  assert.match(broken.calls[1]?.prompt ?? "", /- \$: expected at least 2 items, got 0/);
+});
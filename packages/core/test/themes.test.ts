@@ -0,0 +1,135 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { IndexedPost } from "../src/history";
+import { createFakeProvider } from "../src/providers/fake";
+import { buildThemeIndex, clusterThemes } from "../src/themes";
+import { makePost } from "./posts";
+
+const posts: IndexedPost[] = [
+  makePost({
+    id: "1",
+    published_at: "2026-01-01T10:00:00Z",
+    text: "Аптечка на яхте: бинты и пластыри",
+    metrics: { reactions: 10 },
+  }),
+  makePost({
+    id: "2",
+    published_at: "2026-01-02T10:00:00Z",
+    text: "Аптечка для шкипера: таблетки от укачивания",
+    kind: "similar",
+    channel: "Competitor",
+  }),
+  makePost({
+    id: "3",
+    published_at: "2026-01-03T10:00:00Z",
+    text: "Что положить в аптечку: бинты и таблетки",
+    metrics: { reactions: 4 },
+  }),
+  makePost({
+    id: "4",
+    published_at: "2026-01-04T10:00:00Z",
+    text: "Марины Хорватии: стоянка и цены",
+    kind: "similar",
+    channel: "Competitor",
+    views: 500,
+  }),
+  makePost({
+    id: "5",
+    published_at: "2026-01-05T10:00:00Z",
+    text: "Лучшие марины Греции для стоянки",
+    kind: "similar",
+    channel: "Competitor",
+    views: 300,
+  }),
+];
+const embeddings = [
+  [1, 0.1, 0],
+  [0.9, 0, 0.1],
+  [1, 0, 0],
+  [0, 1, 0.1],
+  [0.1, 0.9, 0],
+];
+
+test("clusterThemes groups posts and labels themes with top terms", () => {
+  const index = clusterThemes(posts, embeddings, { count: 2 });
+
+  assert.equal(index.labeledWith, "terms");
+  assert.equal(index.totalPosts, 5);
+  assert.deepEqual(
+    index.themes.map((theme) => [theme.id, theme.size, theme.sizeByKind]),
+    [
+      ["theme_1", 3, { own: 2, similar: 1 }],
+      ["theme_2", 2, { own: 0, similar: 2 }],
+    ],
+  );
+  const [medicine, marinas] = index.themes;
+  assert.equal(medicine?.topTerms[0], "аптечка");
+  assert.match(marinas?.label ?? "", /марины/);
+  assert.equal(medicine?.latestPostAt, "2026-01-03T10:00:00Z");
+  assert.equal(medicine?.engagement.avgReactions, 14 / 3);
+  assert.equal(medicine?.engagement.avgViews, null);
+  assert.equal(marinas?.engagement.avgViews, 400);
+  assert.equal(medicine?.examples.length, 3);
+
+  assert.deepEqual(
+    index.membership.map((entry) => [entry.id, entry.themeId]),
+    [
+      ["1", "theme_1"],
+      ["2", "theme_1"],
+      ["3", "theme_1"],
+      ["4", "theme_2"],
+      ["5", "theme_2"],
+    ],
+  );
+  assert.ok(index.membership.every((entry) => entry.similarity > 0.9));
+  assert.deepEqual(clusterThemes(posts, embeddings, { count: 2 }).membership, index.membership);
+  assert.throws(() => clusterThemes([], []), /empty_posts/);
+});
+
+test("clusterThemes leaves out posts with an empty embedding", () => {
+  const index = clusterThemes(posts, [embeddings[0] ?? [], [], ...embeddings.slice(2)], { count: 2 });
+
+  assert.equal(index.totalPosts, 4);
+  const themeOf = new Map(index.membership.map((entry) => [entry.id, entry.themeId]));
+  assert.deepEqual([...themeOf.keys()], ["1", "3", "4", "5"]);
+  assert.equal(themeOf.get("1"), themeOf.get("3"));
+  assert.equal(themeOf.get("4"), themeOf.get("5"));
+  assert.notEqual(themeOf.get("1"), themeOf.get("4"));
+  assert.ok(index.membership.every((entry) => Number.isFinite(entry.similarity)));
+  assert.equal(index.historyChecksum, clusterThemes(posts, embeddings, { count: 2 }).historyChecksum);
+  assert.throws(() => clusterThemes(posts, posts.map(() => [])), /empty_embeddings/);
+});
+
+test("buildThemeIndex embeds posts and names themes with one LLM call", async () => {
+  const provider = createFakeProvider({
+    responses: {
+      theme_labels: (request) =>
+        JSON.stringify(
+          Array.from(request.prompt.matchAll(/id=(theme_\d+)/g), (match) => ({
+            id: match[1],
+            label: `Тема ${match[1]}`,
+          })),
+        ),
+    },
+  });
+
+  const index = await buildThemeIndex(posts, {
+    provider,
+    model: "fake-model",
+    embeddingModel: "fake-embedding",
+    count: 2,
+    labels: "llm",
+  });
+
+  assert.equal(index.labeledWith, "llm");
+  assert.deepEqual(
+    index.themes.map((theme) => theme.label),
+    ["Тема theme_1", "Тема theme_2"],
+  );
+  assert.equal(provider.embeddedTexts.length, posts.length);
+  assert.deepEqual(
+    provider.calls.map((call) => call.purpose),
+    ["theme_labels"],
+  );
+  assert.equal(index.membership.length, posts.length);
+});
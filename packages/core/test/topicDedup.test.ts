@@ -0,0 +1,62 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { dedupeTopics, type TopicReference } from "../src/topicDedup";
+
+const references: TopicReference[] = [
+  { kind: "previous_queue", text: "Как выбрать первый чартер", embedding: [1, 0, 0], queueId: "queue_1", rank: 3 },
+  { kind: "own_post", text: "Аптечка на яхте: что взять", embedding: [0, 1, 0], postId: "42" },
+];
+
+test("dedupeTopics rejects paraphrases of previous queues and own posts", () => {
+  const { kept, rejected } = dedupeTopics(
+    [
+      { topic: "Выбираем первый чартер: советы", embedding: [0.95, 0.05, 0] },
+      { topic: "Что положить в аптечку", embedding: [0.1, 0.97, 0.1] },
+      { topic: "Ночные переходы", embedding: [0, 0, 1] },
+    ],
+    references,
+    0.9,
+  );
+
+  assert.deepEqual(
+    kept.map((item) => item.topic),
+    ["Ночные переходы"],
+  );
+  assert.deepEqual(
+    rejected.map((entry) => [
+      entry.item.topic,
+      entry.collidesWith.kind,
+      entry.collidesWith.queueId ?? entry.collidesWith.postId,
+    ]),
+    [
+      ["Выбираем первый чартер: советы", "previous_queue", "queue_1"],
+      ["Что положить в аптечку", "own_post", "42"],
+    ],
+  );
+  assert.equal(rejected[0]?.collidesWith.rank, 3);
+  assert.ok((rejected[0]?.collidesWith.similarity ?? 0) >= 0.9);
+});
+
+test("dedupeTopics rejects repeats within the plan and exact matches", () => {
+  const { kept, rejected } = dedupeTopics(
+    [
+      { topic: "Ночные переходы", embedding: [0, 0, 1] },
+      { topic: "Переходы ночью", embedding: [0, 0.1, 0.99] },
+      { topic: "  как выбрать ПЕРВЫЙ чартер", embedding: [] },
+    ],
+    references,
+  );
+
+  assert.deepEqual(
+    kept.map((item) => item.topic),
+    ["Ночные переходы"],
+  );
+  assert.deepEqual(rejected[0]?.collidesWith, {
+    kind: "plan",
+    text: "Ночные переходы",
+    rank: 1,
+    similarity: rejected[0]?.collidesWith.similarity,
+  });
+  assert.equal(rejected[1]?.collidesWith.similarity, 1);
+  assert.throws(() => dedupeTopics([], references, 0), /invalid_topic_dedup_threshold/);
+});
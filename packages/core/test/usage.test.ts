@@ -0,0 +1,83 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  aggregateUsage,
+  DEFAULT_PRICE_TABLE,
+  estimateCostUsd,
+  parsePriceTable,
+  summarizeUsage,
+  type LlmUsageEntry,
+  type UsageRecord,
+} from "../src/usage";
+
+function call(overrides: Partial<LlmUsageEntry>): LlmUsageEntry {
+  return {
+    at: "2026-03-04T10:00:00.000Z",
+    kind: "text",
+    purpose: "draft",
+    provider: "openai",
+    model: "gpt-5-mini",
+    inputTokens: 0,
+    outputTokens: 0,
+    ...overrides,
+  };
+}
+
+function record(startedAt: string, calls: LlmUsageEntry[]): UsageRecord {
+  return { requestId: startedAt, route: "/draft", startedAt, status: "ok", calls };
+}
+
+test("estimateCostUsd prices input and output tokens per million", () => {
+  assert.equal(estimateCostUsd(call({ inputTokens: 1_000_000, outputTokens: 500_000 }), DEFAULT_PRICE_TABLE), 1.25);
+  assert.equal(
+    estimateCostUsd(call({ model: "gpt-5-mini-2025-08-07", inputTokens: 4_000_000 }), DEFAULT_PRICE_TABLE),
+    1,
+  );
+  assert.equal(estimateCostUsd(call({ model: "llama3" }), DEFAULT_PRICE_TABLE), null);
+});
+
+test("parsePriceTable overrides defaults and rejects malformed tables", () => {
+  const prices = parsePriceTable('{"llama3":{"input":0,"output":0},"gpt-5-mini":{"input":0.5,"output":4}}');
+  assert.deepEqual(prices.llama3, { input: 0, output: 0 });
+  assert.deepEqual(prices["gpt-5-mini"], { input: 0.5, output: 4 });
+  assert.deepEqual(prices["text-embedding-3-small"], DEFAULT_PRICE_TABLE["text-embedding-3-small"]);
+  assert.throws(() => parsePriceTable("{oops"), /invalid_llm_prices/);
+  assert.throws(() => parsePriceTable('{"gpt-5":{"input":"cheap"}}'), /invalid_llm_prices: gpt-5/);
+});
+
+test("aggregateUsage groups requests by UTC day and Monday-based week", () => {
+  const records = [
+    // понедельник 2026-03-02
+    record("2026-03-02T23:30:00.000Z", [
+      call({ inputTokens: 1000, outputTokens: 200 }),
+      call({ kind: "embedding", purpose: "embedding", model: "text-embedding-3-small", inputTokens: 5000 }),
+    ]),
+    record("2026-03-04T08:00:00.000Z", [call({ model: "llama3", inputTokens: 300, outputTokens: 100 })]),
+    // воскресенье прошлой недели
+    record("2026-03-01T12:00:00.000Z", [call({ inputTokens: 4000 })]),
+  ];
+
+  const { daily, weekly } = aggregateUsage(records, DEFAULT_PRICE_TABLE, {
+    now: new Date("2026-03-04T12:00:00.000Z"),
+    days: 3,
+    weeks: 2,
+  });
+
+  assert.deepEqual(
+    daily.map((day) => [day.start, day.requests, day.costUsd]),
+    [
+      ["2026-03-02", 1, 0.00075],
+      ["2026-03-03", 0, 0],
+      ["2026-03-04", 1, 0],
+    ],
+  );
+  assert.equal(daily[2]?.unpricedCalls, 1);
+  assert.deepEqual(
+    weekly.map((week) => [week.start, week.requests, week.inputTokens, week.embeddingTokens]),
+    [
+      ["2026-02-23", 1, 4000, 0],
+      ["2026-03-02", 2, 1300, 5000],
+    ],
+  );
+  assert.equal(summarizeUsage(records, DEFAULT_PRICE_TABLE).costUsd, 0.00175);
+});